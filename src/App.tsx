@@ -1,24 +1,93 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-
-/** =======================================
- * Helpers & constants
- * ======================================= */
-type ID = string;
-const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
-type DayKey = typeof DAYS[number];
-
-const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
-const pad2 = (n: number) => (n < 10 ? "0" + n : "" + n);
-const toMin = (hhmm: string) => {
-  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
-  if (!m) return 0;
-  return clamp(parseInt(m[1]) * 60 + parseInt(m[2]), 0, 24 * 60);
-};
-const toHHMM = (min: number) => {
-  const m = clamp(Math.round(min), 0, 24 * 60 - 1);
-  return `${pad2((m / 60) | 0)}:${pad2(m % 60)}`;
-};
-const uid = () => Math.random().toString(36).slice(2, 10);
+import { createPortal } from "react-dom";
+import {
+  DAYS,
+  DEFAULT_SETTINGS,
+  JOB_STATUSES,
+  addDays,
+  breachLabel,
+  clamp,
+  dateOfDay,
+  hasWindow,
+  isBreak,
+  isHHMM,
+  isHardWindow,
+  isISODate,
+  isJobOn,
+  jobDays,
+  jobDuration,
+  jobWindow,
+  jobsOn,
+  mondayOf,
+  onsiteOffset,
+  planWeekOf,
+  segmentsFor,
+  toHHMM,
+  toMin,
+  todayISO,
+  uid,
+  windowBreach,
+} from "./model";
+import type {
+  BreakRule,
+  Client,
+  DayKey,
+  Driver,
+  DriverAssignment,
+  GeoPoint,
+  ID,
+  Job,
+  JobStatus,
+  JobTemplate,
+  JobType,
+  RowDelay,
+  ScheduledRow,
+  Settings,
+  Site,
+  TemplateJob,
+  TravelModel,
+  Truck,
+  Unavailability,
+  WindowMode,
+} from "./model";
+import { optimizeDay, optimizeWeek, scorePlan, scoreWeek } from "./optimizer";
+import type { PlanResult } from "./optimizer";
+import { ROLES, ROLE_HINTS, ROLE_LABELS, canWrite, canWriteRecord, localAuth, restAuth, roleOf, supabaseAuth, visibleTrucks } from "./auth";
+import type { Account, AuthProvider, LocalAuth, Role } from "./auth";
+import { blockAt, blockedSlots, newUnavailability, unavailabilityLabel } from "./availability";
+import { diffRestore, makeBackup, pruneSnapshots, readBackup, recordLabel, restoreState, snapshotDue, takeSnapshot } from "./backup";
+import type { RestoreMode, Snapshot } from "./backup";
+import { newBreakRule, ruleLabel } from "./breaks";
+import { DIMENSIONS, capacityProblem, exceeds, sizeLabel } from "./capacity";
+import { delayOf, lateRows, moveSuggestions, observedDelay, propagateDelay, withDelay } from "./delays";
+import type { MoveSuggestion } from "./delays";
+import { driverFor, driverLoad, driverProblem, fmtHours } from "./drivers";
+import { geocodeAddress, geocodeHost } from "./geocode";
+import { EMPTY_HISTORY, KEY_LABELS, diffRecords, record, redo, undo } from "./history";
+import type { History, RecordChanges } from "./history";
+import { fleetKpis, kpiTable } from "./kpi";
+import type { FleetKpi } from "./kpi";
+import { editFromDate, editsTemplateJob, expandTemplates, isInWeek, instanceId, skipDate, templateJobOf } from "./recurrence";
+import { bestStopOrder, leaveRun, makeRun, moveStop, retimeRun, runsOf, stopJobsByRow } from "./runs";
+import { buildCalendar } from "./ical";
+import type { CalendarScope } from "./ical";
+import { STORED_KEYS, isListKey, readStored, recoveryItem, retryRecord, unwrap, wrap } from "./schema";
+import type { ListRecord, RecoveryItem, Stored, StoredKey } from "./schema";
+import { download, readTable, saveTable } from "./spreadsheet";
+import type { Table } from "./spreadsheet";
+import { ADAPTER_LABELS, localAdapter, restAdapter, supabaseAdapter } from "./storage";
+import type { AdapterChoice, AdapterKind, StorageAdapter } from "./storage";
+import { STATUS_TONES, actualSpan, actualTimes, isDone, lastUpdate, nextStatus, startDelay, statusLabel, withStatus } from "./status";
+import { IDLE_STATUS, applyRecords, checkRecords, createSync, kindOf, recordKey } from "./sync";
+import type { Conflict, Outgoing, RecordKey, Sync, SyncRecord, SyncStatus } from "./sync";
+import { CLIENT_FIELDS, JOB_FIELDS, PHASES, guessMapping, importClients, importJobs, phaseTimes, scheduleTable } from "./tables";
+import type { ExportCtx, ImportLine, ImportTarget, Mapping } from "./tables";
+import { DEFAULT_TRAVEL, computedTravel, latLngLabel, parseLatLng, parseMatrixCSV, withTravel } from "./travel";
+import type { DistanceMatrix, TravelCtx } from "./travel";
+import { ISSUE_LABELS, validateSchedule } from "./validate";
+import type { Issue } from "./validate";
+import { DEFAULT_WORKSPACE, copyBetween, joinWorkspace, newWorkspace, withDefault, wsKey } from "./workspaces";
+import type { CopyPick, Workspace } from "./workspaces";
 
 /** =======================================
  * Local storage
@@ -29,7 +98,21 @@ const LS = {
   jobs: "ts_jobs",
   scheduled: "ts_scheduled",
   settings: "ts_settings",
+  templates: "ts_templates",
+  drivers: "ts_drivers",
+  assignments: "ts_driver_assignments",
+  matrix: "ts_distance_matrix",
+  recovery: "ts_recovery",
+  snapshots: "ts_snapshots",
+  storage: "ts_storage",
+  syncShadow: "ts_sync_shadow",
+  syncOutbox: "ts_sync_outbox",
+  workspaces: "ts_workspaces",
+  workspace: "ts_workspace",
 };
+// Keys holding one workspace's data; the rest (chosen store, workspace list) belong to the browser
+const WORKSPACE_LS = [...STORED_KEYS, "recovery", "snapshots"] as const;
+const lsFor = (ws: ID): typeof LS => ({ ...LS, ...Object.fromEntries(WORKSPACE_LS.map((k) => [k, wsKey(LS[k], ws)])) });
 const load = <T,>(k: string, fallback: T): T => {
   try {
     const raw = localStorage.getItem(k);
@@ -38,76 +121,81 @@ const load = <T,>(k: string, fallback: T): T => {
     return fallback;
   }
 };
-const save = (k: string, v: any) => {
+// Snapshots of every workspace, by key
+const snapshotKeys = () =>
+  Object.keys(localStorage).filter((k) => k === LS.snapshots || k.startsWith(`${LS.snapshots}@`));
+// Oldest snapshot of the longest list removed; false when there is none left to give up
+const dropOldestSnapshot = () => {
+  const lists = snapshotKeys().map((k) => ({ k, list: load<Snapshot[]>(k, []) }));
+  const longest = lists.sort((a, b) => b.list.length - a.list.length)[0];
+  if (!longest?.list.length) return false;
   try {
-    localStorage.setItem(k, JSON.stringify(v));
-  } catch {}
-};
-
-/** =======================================
- * Data models
- * ======================================= */
-type Truck = { id: ID; name: string };
-type Client = {
-  id: ID;
-  name: string;
-  notes?: string;
-  defaultTravelMin?: number;  // labeled below
-  defaultOnsiteMin?: number;  // labeled below
+    localStorage.setItem(longest.k, JSON.stringify(longest.list.slice(0, -1)));
+  } catch {
+    localStorage.removeItem(longest.k);
+  }
+  return true;
 };
-
-type JobType = "Delivery" | "Collection";
-type Job = {
-  id: ID;
-  type: JobType;
-  title: string;
-  clientId: ID | null;
-
-  // Durations (minutes)
-  loadMin: number;         // Delivery: depot loading; Collection: off-site loading
-  travelMin: number;       // Travel to site
-  onsiteMin: number;       // Delivery: offload; Collection: on-site loading
-  returnTravelMin: number; // Collection: travel back to depot (Delivery often 0)
-
-  earliest?: string; // HH:MM (soft)
-  latest?: string;   // HH:MM (soft)
-
-  truckId?: ID | null; // preferred truck (optional)
-  notes?: string;
+/** Writes `v`; when the quota is full, snapshots give way. False if it still does not fit */
+const trySave = (k: string, v: unknown): boolean => {
+  const text = JSON.stringify(v);
+  for (;;) {
+    try {
+      localStorage.setItem(k, text);
+      return true;
+    } catch {
+      if (!dropOldestSnapshot()) return false;
+    }
+  }
 };
-
-type ScheduledRow = {
-  id: ID;
-  day: DayKey;
-  jobId: ID;
-  truckId: ID;
-  startMin: number;
-  endMin: number;
+const save = (k: string, v: unknown) => {
+  trySave(k, v);
 };
-
-type Settings = {
-  startTime: string;
-  endTime: string;
-  gap: number;
-  bufferBetweenJobs: number;
-  activeDay: DayKey;
+// Snapshots stay under a size budget (characters), newest first, so live data keeps its room
+const SNAPSHOT_BUDGET = 1_000_000;
+const saveSnapshots = (key: string, list: Snapshot[]) => {
+  let size = 2;
+  let fit = 0;
+  while (fit < list.length && (size += JSON.stringify(list[fit]).length + 1) <= SNAPSHOT_BUDGET) fit++;
+  const kept = list.slice(0, fit);
+  for (let n = kept.length; n >= 0; n--) {
+    try {
+      localStorage.setItem(key, JSON.stringify(kept.slice(0, n)));
+      return;
+    } catch {}
+  }
 };
-
-const DEFAULT_SETTINGS: Settings = {
-  startTime: "07:00",
-  endTime: "18:00",
-  gap: 15,
-  bufferBetweenJobs: 10,
-  activeDay: "Mon",
+// All stored keys of a workspace, migrated and checked; what cannot be read is kept for recovery
+const loadStored = (ws: ID) => {
+  const found: Partial<Record<StoredKey, unknown>> = {};
+  const unreadable: RecoveryItem[] = [];
+  let version = Infinity;
+  for (const key of STORED_KEYS) {
+    const raw = localStorage.getItem(wsKey(LS[key], ws));
+    if (raw == null) continue;
+    try {
+      const v = unwrap(JSON.parse(raw));
+      found[key] = v.data;
+      version = Math.min(version, v.version);
+    } catch {
+      unreadable.push(recoveryItem(key, raw, "not valid JSON"));
+    }
+  }
+  const { state, recovery } = readStored(found, version);
+  return { state, recovery: [...unreadable, ...recovery] };
 };
 
 /** =======================================
- * Supabase via CDN (reads keys from public/env.js)
+ * Supabase via CDN (reads keys from public/env.js); REST server URL and the
+ * address lookup server from there too
  * ======================================= */
 declare global {
   interface Window {
     ENV_SUPABASE_URL?: string;
     ENV_SUPABASE_ANON_KEY?: string;
+    ENV_REST_URL?: string;
+    ENV_GEOCODE_URL?: string;
+    ENV_GEOCODE_EMAIL?: string;
   }
 }
 const ENV = {
@@ -115,6 +203,12 @@ const ENV = {
     (typeof window !== "undefined" && (window as any).ENV_SUPABASE_URL) || "",
   SUPABASE_ANON:
     (typeof window !== "undefined" && (window as any).ENV_SUPABASE_ANON_KEY) || "",
+  REST_URL:
+    (typeof window !== "undefined" && (window as any).ENV_REST_URL) || "",
+  GEOCODE: {
+    endpoint: (typeof window !== "undefined" && window.ENV_GEOCODE_URL) || undefined,
+    email: (typeof window !== "undefined" && window.ENV_GEOCODE_EMAIL) || undefined,
+  },
 };
 
 let __sbCreateClientP: Promise<any> | null = null;
@@ -125,146 +219,748 @@ const getSbCreateClient = async () => {
   }
   return __sbCreateClientP;
 };
+// One client, so the signed-in session also covers the shared records
+let __sbP: Promise<any> | null = null;
+const getSb = () => {
+  if (!ENV.SUPABASE_URL || !ENV.SUPABASE_ANON) return Promise.reject(new Error("Missing Supabase URL or anon key (env.js)"));
+  if (!__sbP) __sbP = getSbCreateClient().then((createClient) => createClient(ENV.SUPABASE_URL, ENV.SUPABASE_ANON));
+  return __sbP;
+};
 
 /** =======================================
  * App
+ * Picks the workspace; the planner below is mounted fresh for each one,
+ * so no state carries over from one workspace to the next. `#/driver`
+ * opens the driver view of the same plan.
  * ======================================= */
 export default function App() {
+  const [workspace, setWorkspace] = useState<ID>(() => {
+    const id = load<ID>(LS.workspace, DEFAULT_WORKSPACE.id);
+    return withDefault(load<Workspace[]>(LS.workspaces, [])).some((w) => w.id === id) ? id : DEFAULT_WORKSPACE.id;
+  });
+  useEffect(() => save(LS.workspace, workspace), [workspace]);
+  const [hash, setHash] = useState(() => window.location.hash);
+  useEffect(() => {
+    const onHash = () => setHash(window.location.hash);
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, []);
+  const view = hash.startsWith("#/driver") ? "driver" : "plan";
+  return <Planner key={workspace} workspace={workspace} view={view} onSwitch={setWorkspace} />;
+}
+
+function Planner({ workspace, view, onSwitch }: { workspace: ID; view: "plan" | "driver"; onSwitch: (id: ID) => void }) {
+  const K = useMemo(() => lsFor(workspace), [workspace]);
   // Core state
+  const [stored] = useState(() => loadStored(workspace));
   const [trucks, setTrucks] = useState<Truck[]>(
-    load<Truck[]>(LS.trucks, Array.from({ length: 10 }, (_, i) => ({ id: uid(), name: `Truck ${i + 1}` })))
+    stored.state.trucks ?? Array.from({ length: 10 }, (_, i) => ({ id: uid(), name: `Truck ${i + 1}` }))
   );
-  const [clients, setClients] = useState<Client[]>(load<Client[]>(LS.clients, []));
-  const [jobs, setJobs] = useState<Job[]>(load<Job[]>(LS.jobs, []));
-  const [scheduled, setScheduled] = useState<ScheduledRow[]>(load<ScheduledRow[]>(LS.scheduled, []));
-  const [settings, setSettings] = useState<Settings>(load<Settings>(LS.settings, DEFAULT_SETTINGS));
+  const [clients, setClients] = useState<Client[]>(stored.state.clients ?? []);
+  const [allJobs, setAllJobs] = useState<Job[]>(stored.state.jobs ?? []);
+  const [allScheduled, setAllScheduled] = useState<ScheduledRow[]>(stored.state.scheduled ?? []);
+  const [settings, setSettings] = useState<Settings>(stored.state.settings ?? DEFAULT_SETTINGS);
+  const [templates, setTemplates] = useState<JobTemplate[]>(stored.state.templates ?? []);
+  const [drivers, setDrivers] = useState<Driver[]>(stored.state.drivers ?? []);
+  const [assignments, setAssignments] = useState<DriverAssignment[]>(stored.state.assignments ?? []);
+  const [matrix, setMatrix] = useState<DistanceMatrix>(stored.state.matrix ?? {});
+  const [recovery, setRecovery] = useState<RecoveryItem[]>(() => [...load<RecoveryItem[]>(K.recovery, []), ...stored.recovery]);
   const { startTime, endTime, gap, bufferBetweenJobs, activeDay } = settings;
+  const weekOf = planWeekOf(settings);
+  const activeDate = dateOfDay(weekOf, activeDay);
+
+  // Template instances of other weeks stay stored, with their rows, but are
+  // not part of the week shown: everything below sees and edits that week only
+  const offWeek = useMemo(() => new Set(allJobs.filter((j) => !isInWeek(j, weekOf)).map((j) => j.id)), [allJobs, weekOf]);
+  const shownWeek = useRef({ weekOf, offWeek });
+  shownWeek.current = { weekOf, offWeek };
+  const jobs = useMemo(() => (offWeek.size ? allJobs.filter((j) => !offWeek.has(j.id)) : allJobs), [allJobs, offWeek]);
+  const scheduled = useMemo(() => (offWeek.size ? allScheduled.filter((r) => !offWeek.has(r.jobId)) : allScheduled), [allScheduled, offWeek]);
+  const setJobs = (next: React.SetStateAction<Job[]>) =>
+    setAllJobs((all) => {
+      const hidden = all.filter((j) => !isInWeek(j, shownWeek.current.weekOf));
+      const shown = hidden.length ? all.filter((j) => isInWeek(j, shownWeek.current.weekOf)) : all;
+      const res = typeof next === "function" ? next(shown) : next;
+      return res === shown ? all : [...res, ...hidden];
+    });
+  const setScheduled = (next: React.SetStateAction<ScheduledRow[]>) =>
+    setAllScheduled((all) => {
+      const { offWeek: off } = shownWeek.current;
+      const hidden = all.filter((r) => off.has(r.jobId));
+      const shown = hidden.length ? all.filter((r) => !off.has(r.jobId)) : all;
+      const res = typeof next === "function" ? next(shown) : next;
+      return res === shown ? all : [...res, ...hidden];
+    });
 
   // Derived
   const startMin = toMin(startTime);
   const endMin = toMin(endTime);
 
   const jobById = useMemo(() => Object.fromEntries(jobs.map((j) => [j.id, j])), [jobs]);
+  const jobMap = useMemo(() => new Map(jobs.map((j) => [j.id, j])), [jobs]);
   const clientById = useMemo(() => Object.fromEntries(clients.map((c) => [c.id, c])), [clients]);
   const truckById = useMemo(() => Object.fromEntries(trucks.map((t) => [t.id, t])), [trucks]);
 
-  // Persist locally
-  useEffect(() => save(LS.trucks, trucks), [trucks]);
-  useEffect(() => save(LS.clients, clients), [clients]);
-  useEffect(() => save(LS.jobs, jobs), [jobs]);
-  useEffect(() => save(LS.scheduled, scheduled), [scheduled]);
-  useEffect(() => save(LS.settings, settings), [settings]);
+  // Persist locally; keys that did not fit are shown until they do
+  const [unsaved, setUnsaved] = useState<StoredKey[]>([]);
+  const persist = (key: StoredKey, value: unknown) => {
+    const ok = trySave(K[key], wrap(value));
+    setUnsaved((u) => (ok ? (u.includes(key) ? u.filter((k) => k !== key) : u) : u.includes(key) ? u : [...u, key]));
+  };
+  useEffect(() => persist("trucks", trucks), [trucks]);
+  useEffect(() => persist("clients", clients), [clients]);
+  useEffect(() => persist("jobs", allJobs), [allJobs]);
+  useEffect(() => persist("scheduled", allScheduled), [allScheduled]);
+  useEffect(() => persist("settings", settings), [settings]);
+  useEffect(() => persist("templates", templates), [templates]);
+  useEffect(() => persist("drivers", drivers), [drivers]);
+  useEffect(() => persist("assignments", assignments), [assignments]);
+  useEffect(() => persist("matrix", matrix), [matrix]);
+  useEffect(() => save(K.recovery, recovery), [recovery]);
+
+  // Rolling snapshots of everything stored, checked every minute
+  const storedState: Stored = useMemo(
+    () => ({ trucks, clients, jobs: allJobs, scheduled: allScheduled, settings, templates, drivers, assignments, matrix }),
+    [trucks, clients, allJobs, allScheduled, settings, templates, drivers, assignments, matrix]
+  );
+  const storedRef = useRef(storedState);
+  storedRef.current = storedState;
+  const [snapshots, setSnapshots] = useState<Snapshot[]>(() => load<Snapshot[]>(K.snapshots, []));
+  useEffect(() => saveSnapshots(K.snapshots, snapshots), [snapshots]);
+  const snapshotNow = (label: string) => setSnapshots((list) => pruneSnapshots([takeSnapshot(storedRef.current, label), ...list]));
+  useEffect(() => {
+    const tick = () =>
+      setSnapshots((list) => (snapshotDue(list[0], storedRef.current) ? pruneSnapshots([takeSnapshot(storedRef.current, "Automatic"), ...list]) : list));
+    tick();
+    const t = window.setInterval(tick, 60_000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  // Undo / redo: every local change of the stored state becomes a step; actions name theirs with `note`
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  // The name for the next change, and whether that change only follows up the last one
+  // (template instances, travel times, orphaned rows)
+  const stepLabel = useRef<string | null>(null);
+  const note = (label: string) => {
+    stepLabel.current = label;
+  };
+  const followUp = useRef(false);
+  const stepOpen = useRef(false); // the last change of the records was a step, so follow-ups join it
+  // What the last step ended on; undo/redo and shared updates move it along
+  // themselves, so only what changed locally since then is the next step
+  const lastStored = useRef(storedState);
+  const settle = (changes: Map<RecordKey, unknown | null>) => {
+    lastStored.current = { ...lastStored.current, ...applyRecords(lastStored.current, changes) };
+  };
+  useEffect(() => {
+    const diff = diffRecords(lastStored.current, storedState);
+    const named = stepLabel.current;
+    const follow = followUp.current;
+    lastStored.current = storedState;
+    stepLabel.current = null;
+    followUp.current = false;
+    if (!Object.keys(diff.after).length) {
+      stepOpen.current = false;
+      return;
+    }
+    // Following up a load, an undo, a week change or someone else's edit is not a step of its own
+    if (follow && !stepOpen.current) return;
+    stepOpen.current = true;
+    setHistory((h) => record(h, named, diff, follow));
+  }, [storedState]);
+  const setStoredKeys = (part: Partial<Stored>) => {
+    if (part.trucks) setTrucks(part.trucks);
+    if (part.clients) setClients(part.clients);
+    if (part.jobs) setAllJobs(part.jobs);
+    if (part.scheduled) setAllScheduled(part.scheduled);
+    if (part.settings) setSettings(part.settings);
+    if (part.templates) setTemplates(part.templates);
+    if (part.drivers) setDrivers(part.drivers);
+    if (part.assignments) setAssignments(part.assignments);
+    if (part.matrix) setMatrix(part.matrix);
+  };
+  // `steps` back (undo) or forward (redo); the shown day stays put
+  const moveHistory = (dir: "undo" | "redo", steps = 1) => {
+    let h = history;
+    let changes: RecordChanges = {};
+    for (let i = 0; i < steps; i++) {
+      const res = dir === "undo" ? undo(h) : redo(h);
+      if (!res) break;
+      h = res.history;
+      changes = { ...changes, ...res.changes };
+    }
+    if (h === history) return;
+    const records = new Map(Object.entries(changes));
+    const part = applyRecords(storedRef.current, records);
+    storedRef.current = { ...storedRef.current, ...part };
+    settle(records);
+    setHistory(h);
+    setStoredKeys(part);
+  };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const k = e.key.toLowerCase();
+      if (k !== "z" && k !== "y") return;
+      // Text fields keep their own undo
+      const el = e.target as HTMLElement;
+      const typing = el.closest("textarea, [contenteditable]") || (el.tagName === "INPUT" && !["checkbox", "radio", "button"].includes((el as HTMLInputElement).type));
+      if (typing) return;
+      e.preventDefault();
+      moveHistory(k === "y" || e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [history]); // eslint-disable-line
+
+  // Expand recurring templates into this week's job instances
+  const scheduledRef = useRef(allScheduled);
+  scheduledRef.current = allScheduled;
+  useEffect(() => {
+    followUp.current = true;
+    setAllJobs((j) => expandTemplates(templates, j, scheduledRef.current, weekOf));
+  }, [templates, weekOf]);
+
+  // Recompute travel when the depot, a client's location or the travel model changes.
+  // Rows already on the schedule keep their length and show up as duration conflicts.
+  const travelCtx = useMemo<TravelCtx>(
+    () => ({ depot: settings.depot, clientById: new Map(clients.map((c) => [c.id, c])), model: settings.travel || DEFAULT_TRAVEL, matrix }),
+    [settings.depot, settings.travel, clients, matrix]
+  );
+  useEffect(() => {
+    setJobs((js) => {
+      const next = js.map((j) => withTravel(j, travelCtx));
+      if (!next.some((j, i) => j !== js[i])) return js;
+      followUp.current = true;
+      return next;
+    });
+    setTemplates((ts) => {
+      const next = ts.map((t) => {
+        const job = withTravel(t.job, travelCtx);
+        return job === t.job ? t : { ...t, job };
+      });
+      if (!next.some((t, i) => t !== ts[i])) return ts;
+      followUp.current = true;
+      return next;
+    });
+  }, [travelCtx]);
+
+  // Stops of multi-stop runs, as the part of the run each one covers
+  const stopJob = useMemo(() => stopJobsByRow(scheduled, jobMap, travelCtx), [scheduled, jobMap, travelCtx]);
+  const jobOfRow = (r: ScheduledRow): Job | undefined => stopJob.get(r.id) || jobById[r.jobId];
 
   // Guard: delete orphan schedule rows when jobs change (prevents j.type crash)
   useEffect(() => {
-    setScheduled((s) => s.filter((x) => jobs.some((j) => j.id === x.jobId)));
-  }, [jobs]);
+    const ids = new Set(allJobs.map((j) => j.id));
+    setAllScheduled((s) => {
+      if (s.every((x) => isBreak(x) || ids.has(x.jobId))) return s;
+      followUp.current = true;
+      return s.filter((x) => isBreak(x) || ids.has(x.jobId));
+    });
+  }, [allJobs]);
 
-  /** ============ Shared (Supabase) ============ */
-  const [sharedOn, setSharedOn] = useState(false);
-  const [sharedInfo, setSharedInfo] = useState<{ connected: boolean; lastSync: Date | null; error: string | null }>({
-    connected: false, lastSync: null, error: null
-  });
-  const [supabase, setSupabase] = useState<any>(null);
-  const saveDebounce = useRef<number | null>(null);
+  /** ============ Workspaces ============ */
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => withDefault(load<Workspace[]>(LS.workspaces, [])));
+  useEffect(() => save(LS.workspaces, workspaces), [workspaces]);
+  const workspaceName = (id: ID) => workspaces.find((w) => w.id === id)?.name || id;
+
+  // A new workspace, or (with `id`) one created on another machine
+  const addWorkspace = (name: string, id?: string) => {
+    const res = id ? joinWorkspace(id, name, workspaces) : newWorkspace(name, workspaces);
+    if (!res.workspace) return res.error;
+    save(LS.workspaces, [...workspaces, res.workspace]); // now: switching unmounts this planner before its effects run
+    onSwitch(res.workspace.id);
+  };
+  // Only this browser's copy goes; a shared store keeps its records
+  const removeWorkspace = (id: ID) => {
+    if (id === workspace || id === DEFAULT_WORKSPACE.id) return;
+    if (!confirm(`Delete workspace "${workspaceName(id)}" from this browser?`)) return;
+    const keys = lsFor(id);
+    for (const k of WORKSPACE_LS) localStorage.removeItem(keys[k]);
+    setWorkspaces((list) => list.filter((w) => w.id !== id));
+  };
+  // The open workspace as it is now; others as last saved in this browser
+  const workspaceData = (id: ID): Stored => {
+    if (id === workspace) return storedState;
+    const { state } = loadStored(id);
+    return {
+      ...storedState,
+      trucks: state.trucks ?? [],
+      clients: state.clients ?? [],
+      templates: state.templates ?? [],
+    };
+  };
+  // Into another workspace, the copy also waits in that workspace's outbox,
+  // so the shared store gets it the first time the workspace opens here
+  const copyRecords = async (from: ID, to: ID, pick: CopyPick) => {
+    if (to === workspace && !allowed("clients", "templates")) return "";
+    const target = workspaceData(to);
+    const res = copyBetween(workspaceData(from), target, pick);
+    if (to === workspace) {
+      note(`Copy from ${workspaceName(from)}`);
+      setClients(res.clients);
+      setTemplates(res.templates);
+    } else {
+      save(wsKey(LS.clients, to), wrap(res.clients));
+      save(wsKey(LS.templates, to), wrap(res.templates));
+      const toStorage = storageFor(to);
+      if (toStorage.kind !== "off") {
+        const at = new Date().toISOString();
+        const copied: Outgoing[] = [
+          ...res.clients.filter((c) => !target.clients.includes(c)).map((c) => ({ key: recordKey("clients", c.id), data: c, at })),
+          ...res.templates.filter((t) => !target.templates.includes(t)).map((t) => ({ key: recordKey("templates", t.id), data: t, at })),
+        ];
+        try {
+          const outboxKey = `${LS.syncOutbox}:${(await makeAdapter(toStorage, to)).id}`;
+          const keys = new Set(copied.map((o) => o.key));
+          save(outboxKey, [...load<Outgoing[]>(outboxKey, []).filter((o) => !keys.has(o.key)), ...copied]);
+        } catch (e: any) {
+          return `Copied in this browser only: ${e?.message || e}`;
+        }
+      }
+    }
+    return `Copied ${res.copied.clients} client${res.copied.clients === 1 ? "" : "s"} and ${res.copied.templates} recurring job${res.copied.templates === 1 ? "" : "s"} to ${workspaceName(to)}.`;
+  };
 
+  /** ============ Shared storage ============ */
+  // Record by record through a storage adapter: see sync.ts and storage.ts.
+  // Conflicting edits wait in `conflicts` for the user.
+  const [chosenStorage, setStorage] = useState<AdapterChoice>(() => load<AdapterChoice>(LS.storage, { kind: "off" }));
+  useEffect(() => save(LS.storage, chosenStorage), [chosenStorage]);
+  // The default workspace is shared between tabs at most, never through a server
+  const storageFor = (ws: ID): AdapterChoice =>
+    ws === DEFAULT_WORKSPACE.id && chosenStorage.kind !== "local" ? { kind: "off" } : chosenStorage;
+  const storage = storageFor(workspace);
+  const sharedOn = storage.kind !== "off";
+  const [sharedInfo, setSharedInfo] = useState<SyncStatus>(IDLE_STATUS);
+
+  // Sign-in: a shared store signs people in itself; the local stand-in only
+  // while the plan stays in this browser
+  const [localAccounts] = useState(() => localAuth());
+  const restUrl = storage.url || ENV.REST_URL;
+  const authFor = async (): Promise<AuthProvider> =>
+    storage.kind === "supabase" ? supabaseAuth(await getSb(), workspace)
+    : storage.kind === "rest" ? restAuth(restUrl, workspace)
+    : localAccounts;
+  const [account, setAccount] = useState<Account | null>(null);
   useEffect(() => {
-    let channel: any;
     let alive = true;
+    authFor()
+      .then((auth) => auth.restore())
+      .then((a) => alive && setAccount(a))
+      .catch(() => alive && setAccount(null));
+    return () => {
+      alive = false;
+    };
+  }, [storage.kind, restUrl]); // eslint-disable-line
+  const signIn = async (email: string, password: string) => setAccount(await (await authFor()).signIn(email, password));
+  const signOut = async () => {
+    await (await authFor()).signOut();
+    setAccount(null);
+  };
+  const role = roleOf(account, sharedOn);
+  const can = (key: StoredKey) => canWrite(role, key);
+  const canWriteAll = STORED_KEYS.every(can);
+  const adminOnly = role === "driver" ? " hidden" : "";
+  // Actions check the role too, not only the buttons
+  const allowed = (...keys: StoredKey[]) => {
+    const denied = keys.filter((k) => !can(k));
+    if (!denied.length) return true;
+    alert(`As ${ROLE_LABELS[role].toLowerCase()} you cannot change ${denied.map((k) => KEY_LABELS[k]).join(" or ")}.`);
+    return false;
+  };
+  const dayTrucks = visibleTrucks(trucks, role, account?.driverId, assignments, [activeDay]);
+  const weekTrucks = visibleTrucks(trucks, role, account?.driverId, assignments, DAYS);
+  const ownTrucks = useRef<ID[]>([]);
+  ownTrucks.current = role === "driver" ? weekTrucks.map((t) => t.id) : [];
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [clientId] = useState(uid);
+  const syncRef = useRef<Sync | null>(null);
+  const syncDebounce = useRef<number | null>(null);
+
+  // Unreadable records are kept once, however often the same data arrives
+  const addRecovery = (items: RecoveryItem[]) => {
+    if (!items.length) return;
+    setRecovery((r) => {
+      const seen = new Set(r.map((x) => `${x.key}:${JSON.stringify(x.record)}`));
+      return [...r, ...items.filter((x) => !seen.has(`${x.key}:${JSON.stringify(x.record)}`))];
+    });
+  };
+  // Shared records into local state; ones that fail the schema checks go to recovery
+  const applyShared = (raw: Map<RecordKey, unknown | null>) => {
+    const { changes, recovery: lost } = checkRecords(raw);
+    addRecovery(lost);
+    const part = applyRecords(storedRef.current, changes);
+    storedRef.current = { ...storedRef.current, ...part }; // a second batch before the next render builds on this one
+    settle(changes); // someone else's edit is not a local undo step
+    setStoredKeys(part);
+  };
+
+  // Joining a shared store for the first time replaces this browser's plan: what
+  // only it had goes to recovery, with a snapshot of the whole plan before
+  const keepDropped = (records: Map<RecordKey, unknown>) => {
+    snapshotNow("Before joining the shared plan");
+    addRecovery([...records].filter(([k]) => isListKey(kindOf(k))).map(([k, data]) => recoveryItem(kindOf(k), data, "only in this browser when it joined the shared plan")));
+    alert(
+      `${records.size} record${records.size === 1 ? " was" : "s were"} only in this browser and not in the shared plan, so they were taken out. ` +
+        `They are under Recovered records, and the snapshot "Before joining the shared plan" has the plan as it was.`
+    );
+  };
 
+  // The adapter for the chosen store and workspace; throws when it is not configured
+  const makeAdapter = async (choice: AdapterChoice, ws = workspace): Promise<StorageAdapter> => {
+    if (choice.kind === "local") return localAdapter(ws);
+    if (choice.kind === "rest") {
+      const url = choice.url || ENV.REST_URL;
+      if (!url) throw new Error("No REST server URL (set it here or as ENV_REST_URL in env.js)");
+      return restAdapter(url, ws, { token: restAuth(url, ws).token });
+    }
+    return supabaseAdapter(await getSb(), ENV.SUPABASE_URL, ws);
+  };
+
+  useEffect(() => {
+    if (!sharedOn) {
+      setSharedInfo(IDLE_STATUS);
+      setConflicts([]);
+      return;
+    }
+    let alive = true;
+    let sync: Sync | null = null;
     (async () => {
-      if (!sharedOn) {
-        setSupabase(null);
-        setSharedInfo({ connected: false, lastSync: null, error: null });
-        return;
-      }
       try {
-        if (!ENV.SUPABASE_URL || !ENV.SUPABASE_ANON) throw new Error("Missing Supabase URL or anon key (env.js)");
-        const createClient = await getSbCreateClient();
-        const sb = createClient(ENV.SUPABASE_URL, ENV.SUPABASE_ANON);
-        setSupabase(sb);
-        setSharedInfo({ connected: true, lastSync: new Date(), error: null });
-
-        // Ensure row exists & read it
-        await sb.from("app_state").upsert({ id: "shared", data: {} }).eq("id", "shared");
-        const { data, error } = await sb.from("app_state").select("data").eq("id", "shared").maybeSingle();
-        if (error) console.warn("initial select error:", error);
-        const incoming: any = (data as any)?.data || {};
-        if (incoming.trucks) setTrucks(incoming.trucks);
-        if (incoming.clients) setClients(incoming.clients);
-        if (incoming.jobs) setJobs(incoming.jobs);
-        if (incoming.scheduled) setScheduled(incoming.scheduled);
-        if (incoming.settings) setSettings((s) => ({ ...s, ...incoming.settings }));
-
-        // Realtime updates
-        channel = sb
-          .channel("state")
-          .on(
-            "postgres_changes",
-            { event: "UPDATE", schema: "public", table: "app_state", filter: "id=eq.shared" },
-            (payload: any) => {
-              if (!alive) return;
-              const d = (payload.new && (payload.new as any).data) || {};
-              if (d.trucks) setTrucks(d.trucks);
-              if (d.clients) setClients(d.clients);
-              if (d.jobs) setJobs(d.jobs);
-              if (d.scheduled) setScheduled(d.scheduled);
-              if (d.settings) setSettings((s) => ({ ...s, ...d.settings }));
-              setSharedInfo((s) => ({ ...s, lastSync: new Date() }));
-            }
-          )
-          .subscribe();
+        const adapter = await makeAdapter(storage);
+        if (!alive) return;
+        // Sync state and unsent edits belong to one store
+        const shadowKey = `${LS.syncShadow}:${adapter.id}`;
+        const outboxKey = `${LS.syncOutbox}:${adapter.id}`;
+        sync = createSync({
+          adapter,
+          clientId: account?.email || clientId,
+          canWrite: (kind, before, after) => canWriteRecord(role, kind, before, after, ownTrucks.current),
+          shadow: load<SyncRecord[]>(shadowKey, []),
+          outbox: load<Outgoing[]>(outboxKey, []),
+          onApply: (changes) => alive && applyShared(changes),
+          onConflicts: (list) => alive && setConflicts(list),
+          onDropped: (records) => alive && keepDropped(records),
+          onPersist: (shadow, outbox) => {
+            save(shadowKey, shadow);
+            save(outboxKey, outbox);
+          },
+          onStatus: (status) => alive && setSharedInfo(status),
+        });
+        syncRef.current = sync;
+        await sync.start(storedRef.current);
       } catch (e: any) {
-        setSharedInfo({ connected: false, lastSync: null, error: String(e?.message || e) });
+        if (alive) setSharedInfo({ ...IDLE_STATUS, state: "offline", error: { message: String(e?.message || e), at: new Date().toISOString(), attempts: 1 } });
         console.error("shared connect error:", e);
       }
     })();
-
+    // Back online: send the queue now instead of at the next retry
+    const onOnline = () => void sync?.retry();
+    window.addEventListener("online", onOnline);
     return () => {
       alive = false;
-      if (channel && supabase) {
-        try { supabase.removeChannel(channel); } catch {}
-      }
+      window.removeEventListener("online", onOnline);
+      sync?.stop();
+      syncRef.current = null;
     };
-  }, [sharedOn]); // eslint-disable-line
+  }, [storage.kind, storage.url, account?.id, role]); // eslint-disable-line
 
-  // Debounced shared save
+  // Debounced: local edits go out as changed records
   useEffect(() => {
-    if (!sharedOn || !supabase || !sharedInfo.connected) return;
-    if (saveDebounce.current) window.clearTimeout(saveDebounce.current);
-    saveDebounce.current = window.setTimeout(async () => {
-      try {
-        const data = { trucks, clients, jobs, scheduled, settings };
-        const { error } = await supabase.from("app_state").update({ data }).eq("id", "shared");
-        if (error) throw error;
-        setSharedInfo((s) => ({ ...s, lastSync: new Date(), error: null }));
-      } catch (e: any) {
-        setSharedInfo((s) => ({ ...s, error: String(e?.message || e) }));
-      }
-    }, 350);
-  }, [sharedOn, supabase, sharedInfo.connected, trucks, clients, jobs, scheduled, settings]);
+    if (!syncRef.current) return;
+    if (syncDebounce.current) window.clearTimeout(syncDebounce.current);
+    syncDebounce.current = window.setTimeout(() => syncRef.current?.update(storedRef.current), 350);
+  }, [storedState]);
+
+  const resolveConflict = (key: RecordKey, choice: "mine" | "theirs") => syncRef.current?.resolve(key, choice);
 
   /** =======================================
    * UI actions
    * ======================================= */
   // Trucks
-  const addTruck = () => setTrucks((t) => [...t, { id: uid(), name: `Truck ${t.length + 1}` }]);
+  const addTruck = () => {
+    if (!allowed("trucks")) return;
+    note("Add truck");
+    setTrucks((t) => [...t, { id: uid(), name: `Truck ${t.length + 1}` }]);
+  };
+  const updateTruck = (id: ID, patch: Partial<Truck>) => {
+    if (!allowed("trucks")) return;
+    setTrucks((t) => t.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
   const removeTruck = (id: ID) => {
+    if (!allowed("trucks")) return;
+    note(`Delete truck ${truckById[id]?.name || ""}`);
     setTrucks((t) => t.filter((x) => x.id !== id));
     setScheduled((s) => s.filter((r) => r.truckId !== id));
+    setAssignments((a) => a.filter((x) => x.truckId !== id));
+  };
+
+  // Truck unavailability (service, breakdown)
+  const addUnavailability = (truckId: ID) => {
+    if (!allowed("trucks")) return;
+    setTrucks((t) => t.map((x) => (x.id === truckId ? { ...x, unavailable: [...(x.unavailable || []), newUnavailability(activeDay)] } : x)));
+  };
+  const updateUnavailability = (truckId: ID, id: ID, patch: Partial<Unavailability>) => {
+    if (!allowed("trucks")) return;
+    setTrucks((t) =>
+      t.map((x) => (x.id === truckId ? { ...x, unavailable: (x.unavailable || []).map((u) => (u.id === id ? { ...u, ...patch } : u)) } : x))
+    );
+  };
+  const removeUnavailability = (truckId: ID, id: ID) => {
+    if (!allowed("trucks")) return;
+    setTrucks((t) => t.map((x) => (x.id === truckId ? { ...x, unavailable: (x.unavailable || []).filter((u) => u.id !== id) } : x)));
+  };
+
+  // Drivers
+  const addDriver = () => {
+    if (!allowed("drivers")) return;
+    setDrivers((d) => [
+      ...d,
+      { id: uid(), name: `Driver ${d.length + 1}`, shiftStart: startTime, shiftEnd: endTime, daysOff: [], maxDrivingMin: 540, maxDutyMin: 780 },
+    ]);
+  };
+  const updateDriver = (id: ID, patch: Partial<Driver>) => {
+    if (!allowed("drivers")) return;
+    setDrivers((d) => d.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
+  const removeDriver = (id: ID) => {
+    if (!allowed("drivers")) return;
+    note(`Delete driver ${drivers.find((d) => d.id === id)?.name || ""}`);
+    setDrivers((d) => d.filter((x) => x.id !== id));
+    setAssignments((a) => a.filter((x) => x.driverId !== id));
+  };
+  // One driver per truck-day, and one truck per driver-day
+  const assignDriver = (truckId: ID, day: DayKey, driverId: ID | null) => {
+    if (!allowed("assignments")) return;
+    setAssignments((a) => [
+      ...a.filter((x) => x.day !== day || (x.truckId !== truckId && x.driverId !== driverId)),
+      ...(driverId ? [{ truckId, day, driverId }] : []),
+    ]);
+  };
+
+  // Depot, client locations and the travel model
+  const travelModel = settings.travel || DEFAULT_TRAVEL;
+  const [geoError, setGeoError] = useState<string | null>(null);
+  const [matrixErrors, setMatrixErrors] = useState<string[]>([]);
+  const updateDepot = (patch: Partial<Site>) => {
+    if (!allowed("settings")) return;
+    setSettings((s) => ({ ...s, depot: { ...s.depot, ...patch } }));
+  };
+  const updateTravel = (patch: Partial<TravelModel>) => {
+    if (!allowed("settings")) return;
+    setSettings((s) => ({ ...s, travel: { ...(s.travel || DEFAULT_TRAVEL), ...patch } }));
+  };
+  // Look an address up and store its coordinates
+  const locate = async (address: string | undefined, apply: (location: GeoPoint) => void) => {
+    setGeoError(null);
+    try {
+      const p = await geocodeAddress(address || "", ENV.GEOCODE);
+      if (p) apply(p);
+      else setGeoError(`No match for "${address || ""}"`);
+    } catch (e: any) {
+      setGeoError(e?.message || "Address lookup failed");
+    }
+  };
+  const loadMatrixFile = async (file: File) => {
+    if (!allowed("matrix", "settings")) return;
+    const { matrix: m, errors } = parseMatrixCSV(await file.text(), clients);
+    setMatrixErrors(errors);
+    setMatrix(m);
+    if (Object.keys(m).length) updateTravel({ useMatrix: true });
+  };
+
+  // Rest-break rules (settings) and break rows
+  const breakRules = settings.breakRules || [];
+  const addBreakRule = (kind: BreakRule["kind"]) => {
+    if (!allowed("settings")) return;
+    setSettings((s) => ({ ...s, breakRules: [...(s.breakRules || []), newBreakRule(kind)] }));
+  };
+  const updateBreakRule = (id: ID, patch: Partial<BreakRule>) => {
+    if (!allowed("settings")) return;
+    setSettings((s) => ({
+      ...s,
+      breakRules: (s.breakRules || []).map((r) => (r.id === id ? ({ ...r, ...patch } as BreakRule) : r)),
+    }));
+  };
+  const removeBreakRule = (id: ID) => {
+    if (!allowed("settings", "scheduled")) return;
+    note("Delete break rule");
+    setSettings((s) => ({ ...s, breakRules: (s.breakRules || []).filter((r) => r.id !== id) }));
+    setScheduled((s) => s.filter((r) => !(isBreak(r) && r.ruleId === id)));
+  };
+  // Status from the road: the row's own driver, or anyone who may edit the schedule
+  const ownsRow = (r: ScheduledRow) =>
+    role === "driver" && assignments.some((a) => a.truckId === r.truckId && a.day === r.day && a.driverId === account?.driverId);
+  const reportStatus = (rowId: ID, status: JobStatus, reason?: string) => {
+    const row = scheduled.find((r) => r.id === rowId);
+    if (!row) return;
+    if (!ownsRow(row) && !allowed("scheduled")) return;
+    note(`${statusLabel(status, jobById[row.jobId]?.type)}: ${jobById[row.jobId]?.title || "job"}`);
+    setScheduled((s) => s.map((r) => (r.id === rowId ? withStatus(r, status, new Date(), account?.name, reason) : r)));
+  };
+  // Record (or clear, with 0) how far a row runs over; later rows on its truck move back
+  const delayRow = (rowId: ID, delay: RowDelay | null) => {
+    if (!allowed("scheduled")) return;
+    const row = scheduled.find((r) => r.id === rowId);
+    if (!row) return;
+    note(delay ? `Delay ${delay.minutes} min: ${jobById[row.jobId]?.title || "job"}` : `Clear delay: ${jobById[row.jobId]?.title || "job"}`);
+    setScheduled((s) => propagateDelay(s.map((r) => (r.id === rowId ? withDelay(r, delay) : r)), rowId, { settings, trucks }).rows);
+  };
+  const askDelay = (r: ScheduledRow) => {
+    const typed = prompt("Minutes this job runs over its plan (0 clears the delay):", String(delayOf(r) || ""));
+    if (typed == null) return;
+    const minutes = Math.round(Number(typed));
+    if (!Number.isFinite(minutes) || minutes < 0) return alert("Enter a number of minutes.");
+    delayRow(r.id, minutes ? { minutes, kind: isDone(r, dateOfDay(weekOf, r.day)) ? "actual" : "expected" } : null);
+  };
+  // Reported status and actual times for a block's tooltip
+  const progressTitle = (r: ScheduledRow) => {
+    const date = dateOfDay(weekOf, r.day);
+    const u = lastUpdate(r, date);
+    if (!u) return "";
+    const late = startDelay(r, date);
+    const clock = (d: string) => new Date(d).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    return ` • ${statusLabel(u.status, jobById[r.jobId]?.type)} ${clock(u.at)}${u.reason ? ` (${u.reason})` : ""}${
+      late ? ` • started ${Math.abs(late)} min ${late > 0 ? "late" : "early"}` : ""
+    }`;
+  };
+  const removeScheduledRow = (rowId: ID) => {
+    if (!allowed("scheduled")) return;
+    note("Remove from schedule");
+    setScheduled((s) => s.filter((r) => r.id !== rowId));
   };
 
   // Clients
-  const addClient = () => setClients((c) => [...c, { id: uid(), name: "New client", defaultTravelMin: 30, defaultOnsiteMin: 30 }]);
-  const updateClient = (id: ID, patch: Partial<Client>) =>
+  const addClient = () => {
+    if (!allowed("clients")) return;
+    setClients((c) => [...c, { id: uid(), name: "New client", defaultTravelMin: 30, defaultOnsiteMin: 30 }]);
+  };
+  const updateClient = (id: ID, patch: Partial<Client>) => {
+    if (!allowed("clients")) return;
     setClients((c) => c.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
   const removeClient = (id: ID) => {
+    if (!allowed("clients")) return;
+    note(`Delete client ${clientById[id]?.name || ""}`);
     setClients((c) => c.filter((x) => x.id !== id));
     setJobs((j) => j.map((x) => (x.clientId === id ? { ...x, clientId: null } : x)));
   };
 
+  // Restore: a snapshot of the current state is taken first, so a restore can be rolled back too
+  const replaceStored = (next: Stored, lost: RecoveryItem[]) => {
+    if (!allowed(...STORED_KEYS)) return;
+    snapshotNow("Before restore");
+    note("Restore backup");
+    setStoredKeys(next);
+    addRecovery(lost);
+  };
+
+  // Recovery: a fixed record goes back into its list
+  const restoreRecord = (itemId: ID, key: StoredKey, value: unknown) => {
+    if (!allowed(key)) return;
+    note("Recover record");
+    const add = <T,>(set: React.Dispatch<React.SetStateAction<T[]>>) => set((x) => [...x, value as T]);
+    if (key === "trucks") add(setTrucks);
+    else if (key === "clients") add(setClients);
+    else if (key === "jobs") add(setJobs);
+    else if (key === "scheduled") add(setScheduled);
+    else if (key === "templates") add(setTemplates);
+    else if (key === "drivers") add(setDrivers);
+    else if (key === "assignments") add(setAssignments);
+    else return;
+    setRecovery((r) => r.filter((x) => x.id !== itemId));
+  };
+
+  // Import: new clients first so imported jobs can point at them
+  const importJobRows = (list: Job[], newClients: Client[]) => {
+    if (!allowed("jobs", "clients")) return;
+    note(`Import ${list.length} jobs`);
+    if (newClients.length) setClients((c) => [...c, ...newClients]);
+    setJobs((j) => [...j, ...list]);
+  };
+  const importClientRows = (list: Client[]) => {
+    if (!allowed("clients")) return;
+    note(`Import ${list.length} clients`);
+    setClients((c) => [...c.map((x) => list.find((y) => y.id === x.id) || x), ...list.filter((y) => !c.some((x) => x.id === y.id))]);
+  };
+
+  // Schedule export (day or week) and calendars (week)
+  const exportCtx = (): ExportCtx => ({
+    weekOf,
+    jobOf: jobOfRow,
+    truckById: new Map(trucks.map((t) => [t.id, t])),
+    clientById: new Map(clients.map((c) => [c.id, c])),
+    driverName: (truckId, day) => truckDriver(truckId, day)?.name || "",
+    breakLabel: (r) => breakRules.find((x) => x.id === r.ruleId)?.label || "Break",
+  });
+  const exportSchedule = (scope: "day" | "week", format: "csv" | "xlsx") => {
+    const table = scheduleTable(scheduled, scope === "day" ? [activeDay] : [...DAYS], exportCtx());
+    const name = scope === "day" ? `schedule-${dateOfDay(weekOf, activeDay)}` : `schedule-week-${weekOf}`;
+    saveTable(table, name, format).catch((e) => alert(`Export failed: ${e?.message || e}`));
+  };
+  // Fleet dashboard (day or week)
+  const [kpiScope, setKpiScope] = useState<"day" | "week">("day");
+  const kpis = useMemo(
+    () => fleetKpis({ scheduled, jobs, trucks, settings, days: kpiScope === "day" ? [activeDay] : [...DAYS], travel: travelCtx }),
+    [scheduled, jobs, trucks, settings, kpiScope, activeDay, travelCtx]
+  );
+  const exportKpis = () => {
+    const name = kpiScope === "day" ? `fleet-kpis-${dateOfDay(weekOf, activeDay)}` : `fleet-kpis-week-${weekOf}`;
+    saveTable(kpiTable(kpis), name, "csv").catch((e) => alert(`Export failed: ${e?.message || e}`));
+  };
+  const [calendarScope, setCalendarScope] = useState("fleet"); // "fleet" | "truck:<id>" | "client:<id>"
+  const exportCalendar = () => {
+    const [kind, id] = calendarScope.split(":");
+    const scope: CalendarScope =
+      kind === "truck" ? { kind, truckId: id } : kind === "client" ? { kind, clientId: id } : { kind: "fleet" };
+    const label =
+      scope.kind === "truck" ? truckById[scope.truckId]?.name : scope.kind === "client" ? clientById[scope.clientId]?.name : "Fleet";
+    if (!label) return;
+    const ics = buildCalendar(scheduled, DAYS, scope, `${label} · week of ${weekOf}`, exportCtx());
+    const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "calendar";
+    download(new Blob([ics], { type: "text/calendar;charset=utf-8" }), `${slug}-${weekOf}.ics`);
+  };
+
+  // Run sheets: rendered for print only, one page per truck-day
+  const [printing, setPrinting] = useState<{ days: DayKey[]; truckIds: ID[] } | null>(null);
+  useEffect(() => {
+    if (!printing) return;
+    const done = () => setPrinting(null);
+    window.addEventListener("afterprint", done);
+    const t = window.setTimeout(() => window.print(), 50); // after the sheets are in the DOM
+    return () => {
+      window.clearTimeout(t);
+      window.removeEventListener("afterprint", done);
+    };
+  }, [printing]);
+  const runSheets = (): RunSheet[] => {
+    if (!printing) return [];
+    const runs = runsOf(scheduled);
+    const sheets: RunSheet[] = [];
+    for (const day of printing.days) {
+      for (const truckId of printing.truckIds) {
+        const lines = scheduled
+          .filter((r) => r.day === day && r.truckId === truckId && (isBreak(r) || jobOfRow(r)))
+          .sort((a, b) => a.startMin - b.startMin)
+          .map((r): RunSheetLine => {
+            if (isBreak(r)) return { row: r, label: breakRules.find((x) => x.id === r.ruleId)?.label || "Break" };
+            const stop = r.runId ? (runs.get(r.runId) || []).findIndex((x) => x.id === r.id) + 1 : 0;
+            return { row: r, job: jobOfRow(r), label: "", stop: stop || undefined };
+          });
+        // "All trucks" leaves out trucks with nothing to do that day
+        if (!lines.length && printing.truckIds.length > 1) continue;
+        const truck = truckById[truckId];
+        if (truck) sheets.push({ truck, day, date: dateOfDay(weekOf, day), driver: truckDriver(truckId, day), lines });
+      }
+    }
+    return sheets;
+  };
+
   // Jobs
-  const addJob = (type: JobType) =>
+  const addJob = (type: JobType) => {
+    if (!allowed("jobs")) return;
+    note(`Add ${type.toLowerCase()} job`);
     setJobs((j) => [
       ...j,
       {
@@ -276,152 +972,395 @@ export default function App() {
         travelMin: 30,
         onsiteMin: 30,
         returnTravelMin: type === "Collection" ? 30 : 0,
+        days: [activeDay],
         notes: "",
       },
     ]);
-  const updateJob = (id: ID, patch: Partial<Job>) =>
-    setJobs((j) => j.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
+  // Editing what a template instance copied from its template edits "this occurrence" only
+  const detach = (before: Job, after: Job): Job => (after.templateId && editsTemplateJob(before, after) ? { ...after, detached: true } : after);
+  const updateJob = (id: ID, patch: Partial<Job>) => {
+    if (!allowed("jobs")) return;
+    setJobs((j) => j.map((x) => (x.id === id ? detach(x, { ...x, ...patch }) : x)));
+  };
   const removeJob = (id: ID) => {
+    if (!allowed("jobs")) return;
+    note(`Delete job ${jobById[id]?.title || ""}`);
+    // A removed template instance must not come back on the next expansion
+    const j = jobById[id];
+    if (j?.templateId && j.occurrence) setTemplates((t) => skipDate(t, j.templateId!, j.occurrence!));
     setJobs((j) => j.filter((x) => x.id !== id));
     setScheduled((s) => s.filter((r) => r.jobId !== id));
   };
+  // Turning a day off also takes the job off that day's schedule
+  const toggleJobDay = (id: ID, day: DayKey) => {
+    const j = jobById[id];
+    if (!j) return;
+    const on = isJobOn(j, day);
+    if (!allowed("jobs", ...(on ? (["scheduled"] as const) : []))) return;
+    updateJob(id, { days: DAYS.filter((d) => (d === day ? !on : isJobOn(j, d))) });
+    if (on) setScheduled((s) => s.filter((r) => !(r.jobId === id && r.day === day)));
+  };
+
+  // Recurring templates
+  const addTemplate = (type: JobType) => {
+    if (!allowed("templates")) return;
+    setTemplates((t) => [
+      ...t,
+      {
+        id: uid(),
+        job: {
+          type,
+          title: `${type} Job`,
+          clientId: null,
+          loadMin: 30,
+          travelMin: 30,
+          onsiteMin: 30,
+          returnTravelMin: type === "Collection" ? 30 : 0,
+          notes: "",
+        },
+        days: [activeDay],
+        startDate: weekOf,
+        skipDates: [],
+      },
+    ]);
+  };
+  const updateTemplate = (id: ID, patch: Partial<JobTemplate>) => {
+    if (!allowed("templates")) return;
+    setTemplates((t) => t.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+  };
+  const updateTemplateJob = (id: ID, patch: Partial<TemplateJob>) => {
+    if (!allowed("templates")) return;
+    setTemplates((t) => t.map((x) => (x.id === id ? { ...x, job: { ...x.job, ...patch } } : x)));
+  };
+  const removeTemplate = (id: ID) => {
+    if (!allowed("templates")) return;
+    note("Delete recurring job");
+    // Scheduled instances stay as one-off jobs, in every week
+    const onSchedule = new Set(allScheduled.map((r) => r.jobId));
+    setTemplates((t) => t.filter((x) => x.id !== id));
+    setAllJobs((j) =>
+      j.filter((x) => x.templateId !== id || onSchedule.has(x.id))
+        .map((x) => (x.templateId === id ? { ...x, templateId: undefined, occurrence: undefined, detached: undefined } : x))
+    );
+  };
+  const makeRecurring = (jobId: ID) => {
+    const j = jobById[jobId];
+    if (!j || !allowed("templates", "jobs")) return;
+    const onSchedule = scheduled.some((r) => r.jobId === jobId);
+    note(`Make ${j.title} recurring`);
+    setTemplates((t) => [
+      ...t,
+      {
+        id: uid(),
+        job: templateJobOf(j),
+        days: jobDays(j).length ? jobDays(j) : [activeDay],
+        // A scheduled job stays as this week's one-off; the template picks up from next week
+        startDate: onSchedule ? addDays(weekOf, 7) : weekOf,
+        skipDates: [],
+      },
+    ]);
+    if (!onSchedule) setJobs((x) => x.filter((y) => y.id !== jobId));
+  };
+  // "All future occurrences": push this instance's fields into the template from its date on
+  const applyToFuture = (jobId: ID) => {
+    const j = jobById[jobId];
+    if (!j?.templateId || !j.occurrence) return;
+    if (!allowed("templates", "jobs", "scheduled")) return;
+    const res = editFromDate(templates, j.templateId, j.occurrence, templateJobOf(j));
+    const newId = instanceId(res.templateId, j.occurrence);
+    note("Apply to future occurrences");
+    if (scheduled.some((r) => r.jobId === jobId)) {
+      // Keep the scheduled instance, re-keyed under the template that now covers its date
+      setScheduled((s) => s.map((r) => (r.jobId === jobId ? { ...r, jobId: newId } : r)));
+      setJobs((x) => x.map((y) => (y.id === jobId ? { ...y, id: newId, templateId: res.templateId, detached: undefined } : y)));
+    } else {
+      setJobs((x) => x.filter((y) => y.id !== jobId));
+    }
+    setTemplates(res.templates);
+  };
+  const skipOccurrence = (jobId: ID) => {
+    const j = jobById[jobId];
+    if (!j?.templateId || !j.occurrence) return;
+    if (!allowed("templates", "jobs", "scheduled")) return;
+    if (scheduled.some((r) => r.jobId === jobId) && !confirm("This occurrence is on the schedule. Skip it anyway?")) return;
+    removeJob(jobId);
+  };
 
   // Place on schedule
   const placeOnSchedule = (jobId: ID, truckId: ID, day: DayKey, start: number, end: number) => {
+    if (!allowed("scheduled")) return;
+    note(`Place ${jobById[jobId]?.title || "job"} on ${truckById[truckId]?.name || "truck"}`);
+    setJobs((j) => j.map((x) => (x.id === jobId && !isJobOn(x, day) ? { ...x, days: [...jobDays(x), day] } : x)));
     setScheduled((s) => [
       ...s.filter((r) => !(r.jobId === jobId && r.day === day)),
       { id: uid(), jobId, truckId, day, startMin: start, endMin: end },
     ]);
   };
+  const updateScheduledRow = (rowId: ID, patch: Partial<ScheduledRow>) => {
+    if (!allowed("scheduled")) return;
+    setScheduled((s) => s.map((r) => (r.id === rowId ? { ...r, ...patch } : r)));
+  };
+
+  // Multi-stop runs
+  // Chain a job onto the job (or run) that ends before it on the same truck
+  const joinPrevious = (rowId: ID) => {
+    if (!allowed("scheduled")) return;
+    note("Join run");
+    setScheduled((s) => {
+      const row = s.find((r) => r.id === rowId);
+      if (!row) return s;
+      const prev = s
+        .filter((r) => !isBreak(r) && r.id !== rowId && r.day === row.day && r.truckId === row.truckId && r.startMin < row.startMin)
+        .sort((a, b) => b.startMin - a.startMin)[0];
+      return prev ? makeRun(s, [prev.id, rowId], jobMap, travelCtx) : s;
+    });
+  };
+  const leaveRunRow = (rowId: ID) => {
+    if (!allowed("scheduled")) return;
+    note("Leave run");
+    setScheduled((s) => leaveRun(s, rowId, jobMap, travelCtx));
+  };
+  const moveRunStop = (rowId: ID, dir: -1 | 1) => {
+    if (!allowed("scheduled")) return;
+    note("Reorder run stops");
+    setScheduled((s) => moveStop(s, rowId, dir, jobMap, travelCtx));
+  };
+  const bestRunOrder = (runId: ID) => {
+    if (!allowed("scheduled")) return;
+    note("Best stop order");
+    setScheduled((s) => {
+      const list = runsOf(s).get(runId) || [];
+      if (!list.length) return s;
+      const best = bestStopOrder(list.map((r) => jobMap.get(r.jobId)!).filter(Boolean), list[0].startMin, travelCtx);
+      const order = best.map((j) => list.find((r) => r.jobId === j.id)!.id);
+      return retimeRun(s, runId, jobMap, travelCtx, { order });
+    });
+  };
+  const pinRun = (runId: ID, pinned: boolean) => {
+    if (!allowed("scheduled")) return;
+    setScheduled((s) => s.map((r) => (r.runId === runId ? { ...r, pinned } : r)));
+  };
 
-  // When the client is changed on a job, apply client defaults for travel & on-site
+  // When the client is changed on a job, apply client defaults for travel & on-site;
+  // travel computed from the client's location wins over the default
   const onJobClientChange = (jobId: ID, newClientId: string) => {
+    if (!allowed("jobs")) return;
     const client = clientById[newClientId];
     setJobs((j) =>
       j.map((x) =>
         x.id === jobId
-          ? {
-              ...x,
-              clientId: newClientId || null,
-              travelMin: client?.defaultTravelMin ?? x.travelMin,
-              onsiteMin: client?.defaultOnsiteMin ?? x.onsiteMin,
-            }
+          ? detach(
+              x,
+              withTravel(
+                {
+                  ...x,
+                  clientId: newClientId || null,
+                  travelMin: client?.defaultTravelMin ?? x.travelMin,
+                  onsiteMin: client?.defaultOnsiteMin ?? x.onsiteMin,
+                  travelManual: false,
+                },
+                travelCtx
+              )
+            )
           : x
       )
     );
   };
 
-  // Durations
-const jobDuration = (j: Job) => {
-  if (!j) return 0;
-  if (j.type === "Delivery") {
-    // Delivery: depot Load + Travel to site + Offload + optional Return
-    return j.loadMin + j.travelMin + j.onsiteMin + (j.returnTravelMin || 0);
-  }
-  // Collection: Off-site Load + Travel to site + On-site load + Return
-  return j.loadMin + j.travelMin + j.onsiteMin + (j.returnTravelMin || 0);
-};
-
-
+  // Earliest slot today for job `j` on a truck. Hard windows only accept slots
+  // inside the window; soft windows prefer them and otherwise take the slot
+  // with the smallest breach.
+  // Jobs on a truck-day in driving order, with `j` placed at `st`
+  const itemsWith = (truckId: ID, day: DayKey, j: Job, st: number, en: number, ignoreRowId?: ID) =>
+    [
+      ...scheduled
+        .filter((r) => r.day === day && r.truckId === truckId && r.id !== ignoreRowId && r.jobId !== j.id && jobById[r.jobId])
+        .map((r) => ({ job: jobOfRow(r)!, start: r.startMin, end: r.endMin, runId: r.runId })),
+      { job: j, start: st, end: en, runId: undefined },
+    ].sort((a, b) => a.start - b.start);
+  const capacityWith = (truckId: ID, day: DayKey, j: Job, st: number, ignoreRowId?: ID) => {
+    const items = itemsWith(truckId, day, j, st, st + jobDuration(j), ignoreRowId);
+    return capacityProblem(truckById[truckId], items.map((x) => x.job), items.map((x) => x.runId));
+  };
+  const truckDriver = (truckId: ID, day: DayKey) => driverFor(drivers, assignments, truckId, day);
 
-  // Save button: place a single job at earliest available slot today
-  const earliestSlotOnTruck = (truckId: ID, dur: number) => {
+  const earliestSlotOnTruck = (j: Job, truckId: ID) => {
+    if (exceeds(j.size, truckById[truckId]?.capacity)) return null;
+    const dur = jobDuration(j);
     const existing = scheduled
-      .filter((s) => s.day === activeDay && s.truckId === truckId && jobById[s.jobId])
+      .filter((s) => s.day === activeDay && s.truckId === truckId && (isBreak(s) || jobById[s.jobId]))
       .sort((a, b) => a.startMin - b.startMin);
 
-    const snap = (m: number) => Math.ceil(m / gap) * gap;
-    let cur = toMin(settings.startTime);
+    const step = Math.max(1, gap);
+    const snap = (m: number) => Math.ceil(m / step) * step;
     const dayEnd = toMin(settings.endTime);
 
     const fitsAt = (st: number) => {
       const en = st + dur;
-      for (const r of existing) if (en > r.startMin && st < r.endMin) return false;
+      for (const r of existing) {
+        const pad = isBreak(r) ? 0 : Math.max(0, bufferBetweenJobs);
+        if (en + pad > r.startMin && st < r.endMin + pad) return false;
+      }
+      if (blockAt(truckById[truckId], activeDay, st, en)) return false;
       return en <= dayEnd;
     };
 
-    while (cur + dur <= dayEnd) {
-      cur = snap(cur);
-      if (fitsAt(cur)) return cur;
-      cur += gap;
+    let best: { start: number; breach: number } | null = null;
+    for (let cur = snap(toMin(settings.startTime)); cur + dur <= dayEnd; cur += step) {
+      if (!fitsAt(cur)) continue;
+      if (capacityWith(truckId, activeDay, j, cur)) continue;
+      if (driverProblem(truckDriver(truckId, activeDay), activeDay, itemsWith(truckId, activeDay, j, cur, cur + dur))) continue;
+      const breach = windowBreach(j, cur).total;
+      if (breach === 0) return cur;
+      if (isHardWindow(j)) continue;
+      if (best == null || breach < best.breach) best = { start: cur, breach };
     }
-    return null;
+    return best ? best.start : null;
   };
 
   const saveJobToSchedule = (jobId: ID) => {
+    if (!allowed("scheduled")) return;
     const j = jobById[jobId];
     if (!j) return;
     const dur = jobDuration(j);
 
     const candidateTrucks = j.truckId ? [j.truckId] : trucks.map((t) => t.id);
-    let best: { truckId: ID; start: number } | null = null;
+    let best: { truckId: ID; start: number; breach: number } | null = null;
 
     for (const tid of candidateTrucks) {
-      const st = earliestSlotOnTruck(tid, dur);
-      if (st != null && (best == null || st < best.start)) best = { truckId: tid, start: st };
+      const st = earliestSlotOnTruck(j, tid);
+      if (st == null) continue;
+      const breach = windowBreach(j, st).total;
+      if (best == null || breach < best.breach || (breach === best.breach && st < best.start)) {
+        best = { truckId: tid, start: st, breach };
+      }
     }
     if (best) {
       placeOnSchedule(jobId, best.truckId, activeDay, best.start, best.start + dur);
+    } else if (candidateTrucks.every((tid) => exceeds(j.size, truckById[tid]?.capacity))) {
+      alert(`No truck can carry this job (${sizeLabel(j.size)}).`);
+    } else if (isHardWindow(j) && hasWindow(j)) {
+      alert("No free slot inside this job's hard time window. Try another truck or relax the window.");
     } else {
       alert("No free slot within the day window. Try adjusting times or buffer.");
     }
   };
 
-  // Segments (classic colors)
-type Segment = { label: string; color: string; minutes: number };
-const segmentsFor = (j: Job): Segment[] => {
-  if (!j) return [];
-  if (j.type === "Delivery") {
-    return [
-      { label: "Load",    color: "bg-sky-500",     minutes: j.loadMin },
-      { label: "Travel",  color: "bg-blue-500",    minutes: j.travelMin },
-      { label: "Offload", color: "bg-emerald-500", minutes: j.onsiteMin },
-      { label: "Return",  color: "bg-indigo-400",  minutes: j.returnTravelMin || 0 },
-    ].filter(seg => seg.minutes > 0);
-  } else {
-    return [
-      { label: "Off-site load", color: "bg-rose-500",   minutes: j.loadMin },
-      { label: "Travel",        color: "bg-orange-500", minutes: j.travelMin },
-      { label: "On-site",       color: "bg-amber-500",  minutes: j.onsiteMin },
-      { label: "Return",        color: "bg-orange-400", minutes: j.returnTravelMin || 0 },
-    ].filter(seg => seg.minutes > 0);
-  }
-};
-
+  const [jobsFilter, setJobsFilter] = useState<"day" | "all">("day");
 
+  // Week board: booked minutes per truck-day, and each day's backlog
+  const dayWindow = Math.max(1, endMin - startMin);
+  const weekLoad = useMemo(() => {
+    const m: Record<string, { minutes: number; count: number }> = {};
+    for (const r of scheduled) {
+      if (!jobById[r.jobId]) continue;
+      const k = `${r.truckId}|${r.day}`;
+      m[k] = m[k] || { minutes: 0, count: 0 };
+      m[k].minutes += r.endMin - r.startMin;
+      m[k].count += 1;
+    }
+    return m;
+  }, [scheduled, jobById]);
+  const backlogFor = (day: DayKey) =>
+    jobsOn(jobs, day).filter((j) => !scheduled.some((r) => r.jobId === j.id && r.day === day));
 
-  // Simple greedy autoscheduler
+  // Optimizer: proposes a plan for the active day; nothing changes until accepted.
+  // The proposal only replaces the days it planned, and only while those days
+  // still look as they did when it was made: any edit there (by hand, from
+  // sync, a driver's tap) drops it.
+  const [proposal, setProposal] = useState<{ scope: DayKey | "week"; days: DayKey[]; base: string; result: PlanResult } | null>(null);
+  const rowsOnDays = (rows: ScheduledRow[], days: DayKey[]) => JSON.stringify(rows.filter((r) => days.includes(r.day)));
+  const propose = (scope: DayKey | "week", result: PlanResult) => {
+    const days = scope === "week" ? [...DAYS] : [scope];
+    setProposal({ scope, days, base: rowsOnDays(scheduled, days), result });
+  };
   const autoSchedule = () => {
-    const byTruck: Record<ID, Job[]> = {};
-    for (const t of trucks) byTruck[t.id] = [];
-    const unslotted: Job[] = [];
-    for (const j of jobs) {
-      if (j.truckId && byTruck[j.truckId]) byTruck[j.truckId].push(j);
-      else unslotted.push(j);
+    if (!allowed("scheduled")) return;
+    propose(activeDay, optimizeDay({ jobs, trucks, settings, scheduled, day: activeDay, drivers, assignments, travel: travelCtx }));
+  };
+  const autoScheduleWeek = () => {
+    if (!allowed("scheduled")) return;
+    propose("week", optimizeWeek({ jobs, trucks, settings, scheduled, drivers, assignments, travel: travelCtx }));
+  };
+  useEffect(() => {
+    if (proposal && rowsOnDays(scheduled, proposal.days) !== proposal.base) setProposal(null);
+  }, [scheduled, proposal]);
+  const currentScore = useMemo(
+    () =>
+      !proposal ? null
+      : proposal.scope === "week" ? scoreWeek(scheduled, jobs, settings, travelCtx)
+      : scorePlan(scheduled, jobs, settings, proposal.scope, travelCtx),
+    [proposal, scheduled, jobs, settings, travelCtx]
+  );
+  const acceptProposal = () => {
+    if (!allowed("scheduled")) return;
+    if (proposal) {
+      const { days, result } = proposal;
+      note(`Auto-schedule ${proposal.scope === "week" ? "week" : proposal.scope}`);
+      setScheduled((s) =>
+        rowsOnDays(s, days) === proposal.base ? [...s.filter((r) => !days.includes(r.day)), ...result.rows.filter((r) => days.includes(r.day))] : s
+      );
     }
-    let nextStartPerTruck: Record<ID, number> = {};
-    for (const t of trucks) nextStartPerTruck[t.id] = startMin;
+    setProposal(null);
+  };
 
-    const snap = (m: number) => Math.ceil(m / gap) * gap;
-    const place = (j: Job, truckId: ID) => {
-      const dur = jobDuration(j);
-      let st = snap(nextStartPerTruck[truckId]);
-      const en = st + dur;
-      if (en <= endMin) {
-        placeOnSchedule(j.id, truckId, activeDay, st, en);
-        nextStartPerTruck[truckId] = en + bufferBetweenJobs;
-        return true;
-      }
-      return false;
-    };
+  // Validation: re-run on every state change
+  const issues = useMemo(
+    () => validateSchedule({ scheduled, jobs, trucks, clients, settings, drivers, assignments, travel: travelCtx }),
+    [scheduled, jobs, trucks, clients, settings, drivers, assignments, travelCtx]
+  );
+  const issueSeverityByRow = useMemo(() => {
+    const m: Record<ID, Issue["severity"]> = {};
+    for (const i of issues) for (const id of i.rowIds) if (m[id] !== "error") m[id] = i.severity;
+    return m;
+  }, [issues]);
+  const applyFix = (issue: Issue) => {
+    if (!allowed("scheduled")) return;
+    if (!issue.fix) return;
+    const { rows } = issue.fix;
+    note(`Fix: ${issue.fix.label}`);
+    const patch = new Map(rows.map((r) => [r.id, r]));
+    setScheduled((s) => [
+      ...s.map((r) => patch.get(r.id) || r),
+      ...rows.filter((r) => !s.some((x) => x.id === r.id)), // e.g. an added break
+    ]);
+  };
 
-    for (const t of trucks) for (const j of byTruck[t.id]) place(j, t.id);
-    for (const j of unslotted) {
-      let ok = false;
-      for (const t of trucks) { if (place(j, t.id)) { ok = true; break; } }
-      if (!ok) { /* remains unscheduled */ }
-    }
+  // Live re-planning on the active day: delays the drivers' reports show, jobs running late, moves to free trucks
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const t = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(t);
+  }, []);
+  const replan = useMemo(() => {
+    const date = dateOfDay(weekOf, activeDay);
+    const dayRows = scheduled.filter((r) => r.day === activeDay && (isBreak(r) || jobById[r.jobId]));
+    const observed = dayRows.flatMap((r) => {
+      const delay = isBreak(r) ? null : observedDelay(r, date, now);
+      return delay ? [{ row: r, delay }] : [];
+    });
+    const late = lateRows(dayRows, jobs, settings);
+    const notBefore = date === todayISO() ? now.getHours() * 60 + now.getMinutes() : 0;
+    const moves = moveSuggestions(scheduled, late, { jobs, trucks, settings, notBefore });
+    return { observed, late, moves, delayed: dayRows.filter((r) => r.delay) };
+  }, [scheduled, jobs, trucks, settings, weekOf, activeDay, now, jobById]);
+  const applyMove = (m: MoveSuggestion) => {
+    if (!allowed("scheduled")) return;
+    note(m.label);
+    setScheduled((s) => s.map((r) => (r.id === m.rowId ? m.row : r)));
+  };
+  const [focusRowIds, setFocusRowIds] = useState<ID[]>([]);
+  const focusIssue = (issue: Issue) => {
+    setSettings((s) => ({ ...s, activeDay: issue.day }));
+    setFocusRowIds(issue.rowIds);
   };
+  useEffect(() => {
+    if (!focusRowIds.length) return;
+    document.getElementById(`row-${focusRowIds[0]}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const t = window.setTimeout(() => setFocusRowIds([]), 2500);
+    return () => window.clearTimeout(t);
+  }, [focusRowIds]);
 
   // Hour ticks
   const marks = useMemo(() => {
@@ -431,31 +1370,306 @@ const segmentsFor = (j: Job): Segment[] => {
     return res;
   }, [startMin, endMin]);
 
+  /** ============ Drag & drop on truck timelines ============ */
+  type DragState = {
+    rowId: ID;
+    mode: "move" | "resize";
+    originX: number;
+    pxPerMin: number;
+    orig: ScheduledRow;
+    truckId: ID;
+    startMin: number;
+    endMin: number;
+    runId?: ID; // moving a whole run: `orig`, startMin and endMin span all its stops
+  };
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropError, setDropError] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+
+  // Why a row (or the run it is a stop of) cannot go to (truckId, st–en) on `day`, or null when it fits
+  const placementProblem = (rowId: ID, truckId: ID, day: DayKey, st: number, en: number): string | null => {
+    if (st < startMin) return `starts before ${startTime}`;
+    if (en > endMin) return `ends after ${endTime}`;
+    const blk = blockAt(truckById[truckId], day, st, en);
+    if (blk) return `${truckById[truckId]?.name || "truck"} is unavailable ${unavailabilityLabel(blk)}`;
+    const row = scheduled.find((r) => r.id === rowId);
+    const moving = row?.runId ? scheduled.filter((r) => r.runId === row.runId).map((r) => r.id) : [rowId];
+    const rj = row && !row.runId ? jobById[row.jobId] : undefined;
+    if (rj && isHardWindow(rj)) {
+      const b = windowBreach(rj, st);
+      if (b.total > 0) return `outside the hard window (${breachLabel(b)})`;
+    }
+    if (rj) {
+      const cap = capacityWith(truckId, day, rj, st, rowId);
+      if (cap) return cap.job === rj ? cap.message : `${truckById[truckId]?.name || "truck"} would be over capacity`;
+      const dp = driverProblem(truckDriver(truckId, day), day, itemsWith(truckId, day, rj, st, en, rowId));
+      if (dp) return dp;
+    }
+    const clash = scheduled.find(
+      (r) => !moving.includes(r.id) && r.day === day && r.truckId === truckId && (isBreak(r) || jobById[r.jobId]) && st < r.endMin && en > r.startMin
+    );
+    if (clash && isBreak(clash)) {
+      return `overlaps a break (${toHHMM(clash.startMin)}–${toHHMM(clash.endMin)}) on ${truckById[truckId]?.name || "truck"}`;
+    }
+    // Jobs also keep the buffer between them; breaks need none
+    const buffer = Math.max(0, bufferBetweenJobs);
+    const near = clash || (row && isBreak(row) ? undefined : scheduled.find(
+      (r) => !moving.includes(r.id) && r.day === day && r.truckId === truckId && !isBreak(r) && jobById[r.jobId] && st < r.endMin + buffer && en + buffer > r.startMin
+    ));
+    if (near) {
+      const cj = jobById[near.jobId];
+      const cName = cj.clientId ? (clientById[cj.clientId]?.name || "Client") : "Client";
+      const what = clash ? "overlaps" : `is within the ${buffer} min buffer of`;
+      return `${what} ${cj.type}: ${cName} (${toHHMM(near.startMin)}–${toHHMM(near.endMin)}) on ${truckById[truckId]?.name || "truck"}`;
+    }
+    return null;
+  };
+
+  const beginDrag = (e: React.PointerEvent, row: ScheduledRow, mode: DragState["mode"]) => {
+    if (e.button !== 0 || !can("scheduled")) return;
+    const lane = (e.currentTarget as HTMLElement).closest("[data-truck-id]") as HTMLElement | null;
+    if (!lane) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDropError(null);
+    const stops = row.runId ? runsOf(scheduled).get(row.runId) || [row] : [row];
+    const orig = { ...stops[0], endMin: stops[stops.length - 1].endMin };
+    setDrag({
+      rowId: orig.id,
+      mode: row.runId ? "move" : mode,
+      originX: e.clientX,
+      pxPerMin: lane.getBoundingClientRect().width / Math.max(1, endMin - startMin),
+      orig,
+      truckId: orig.truckId,
+      startMin: orig.startMin,
+      endMin: orig.endMin,
+      runId: row.runId,
+    });
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const snapRound = (m: number) => Math.round(m / Math.max(1, gap)) * Math.max(1, gap);
+
+    const onMove = (e: PointerEvent) => {
+      const d = dragRef.current;
+      if (!d) return;
+      const delta = snapRound((e.clientX - d.originX) / d.pxPerMin);
+      if (d.mode === "resize") {
+        const en = Math.max(d.orig.startMin + Math.max(1, gap), d.orig.endMin + delta);
+        setDrag({ ...d, endMin: en });
+        return;
+      }
+      const lane = document.elementFromPoint(e.clientX, e.clientY)?.closest("[data-truck-id]") as HTMLElement | null;
+      const truckId = lane?.dataset.truckId || d.truckId;
+      const dur = d.orig.endMin - d.orig.startMin;
+      const st = snapRound(d.orig.startMin + delta);
+      setDrag({ ...d, truckId, startMin: st, endMin: st + dur });
+    };
+
+    const onUp = () => {
+      const d = dragRef.current;
+      setDrag(null);
+      if (!d) return;
+      const { orig } = d;
+      if (d.truckId === orig.truckId && d.startMin === orig.startMin && d.endMin === orig.endMin) return;
+      const problem = placementProblem(d.rowId, d.truckId, orig.day, d.startMin, d.endMin);
+      if (problem) {
+        setDropError(`Move refused: ${problem}.`);
+        return;
+      }
+      note(d.truckId === orig.truckId ? "Move on schedule" : `Move to ${truckById[d.truckId]?.name || "truck"}`);
+      if (d.runId) {
+        const shift = d.startMin - orig.startMin;
+        setScheduled((s) =>
+          s.map((r) => (r.runId === d.runId ? { ...r, truckId: d.truckId, startMin: r.startMin + shift, endMin: r.endMin + shift } : r))
+        );
+        return;
+      }
+      // A break placed by hand stays where the dispatcher put it
+      updateScheduledRow(d.rowId, { truckId: d.truckId, startMin: d.startMin, endMin: d.endMin, ...(isBreak(orig) ? { pinned: true } : {}) });
+    };
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [drag?.rowId]); // eslint-disable-line
+
+  // Rows as displayed: the dragged row (or run) follows the pointer until dropped
+  const displayed = useMemo(() => {
+    if (!drag) return scheduled;
+    const shift = drag.startMin - drag.orig.startMin;
+    return scheduled.map((r) =>
+      drag.runId && r.runId === drag.runId
+        ? { ...r, truckId: drag.truckId, startMin: r.startMin + shift, endMin: r.endMin + shift }
+        : r.id === drag.rowId
+        ? { ...r, truckId: drag.truckId, startMin: drag.startMin, endMin: drag.endMin }
+        : r
+    );
+  }, [scheduled, drag]);
+  const dragProblem = drag ? placementProblem(drag.rowId, drag.truckId, drag.orig.day, drag.startMin, drag.endMin) : null;
+
   /** =======================================
    * UI
    * ======================================= */
+  if (view === "driver") {
+    return (
+      <DriverView
+        trucks={weekTrucks}
+        scheduled={scheduled}
+        jobById={jobById}
+        clientById={clientById}
+        weekOf={weekOf}
+        activeDay={activeDay}
+        account={account}
+        driverOf={(truckId, day) => truckDriver(truckId, day)?.name}
+        mayReport={(r) => can("scheduled") || ownsRow(r)}
+        onReport={reportStatus}
+      />
+    );
+  }
   return (
-    <div className="min-h-screen p-4 text-slate-900">
+    <div className="min-h-screen p-4 text-slate-900 print:hidden">
+      {printing && createPortal(<RunSheets sheets={runSheets()} clientById={clientById} />, document.body)}
+      {unsaved.length > 0 && (
+        <div className="mb-3 p-2 rounded border border-rose-300 bg-rose-50 text-sm text-rose-800">
+          This browser's storage is full: changes to {unsaved.map((k) => KEY_LABELS[k]).join(", ")} are not saved and will be lost on reload.
+          Download a backup below, then free some space (e.g. remove a workspace you no longer use).
+        </div>
+      )}
       {/* Header */}
       <div className="mb-4 flex flex-wrap items-center gap-3">
         <h1 className="text-xl font-semibold">Truck Delivery &amp; Collection Scheduler</h1>
+        <div className="flex items-center gap-1 text-sm">
+          <button
+            className="px-2 py-1 rounded border disabled:opacity-40"
+            disabled={!history.past.length}
+            onClick={() => moveHistory("undo")}
+            title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : "Nothing to undo"}
+          >
+            ↶ Undo
+          </button>
+          <button
+            className="px-2 py-1 rounded border disabled:opacity-40"
+            disabled={!history.future.length}
+            onClick={() => moveHistory("redo")}
+            title={history.future.length ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+          >
+            ↷ Redo
+          </button>
+          <details className="relative">
+            <summary className="px-2 py-1 rounded border cursor-pointer list-none">History</summary>
+            <div className="absolute z-20 mt-1 w-72 max-h-80 overflow-auto rounded border bg-white shadow text-xs">
+              {history.past.length + history.future.length === 0 && <div className="p-2 text-slate-500">No edits yet.</div>}
+              {[...history.future].reverse().map((h, i) => (
+                <button
+                  key={h.id}
+                  className="w-full text-left px-2 py-1 text-slate-400 hover:bg-slate-50 flex gap-2"
+                  onClick={() => moveHistory("redo", history.future.length - i)}
+                  title="Redo up to here"
+                >
+                  <span className="flex-1 truncate">{h.label}</span>
+                  <span>{new Date(h.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+                </button>
+              ))}
+              {[...history.past].reverse().map((h, i) => (
+                <button
+                  key={h.id}
+                  className={`w-full text-left px-2 py-1 hover:bg-slate-50 flex gap-2 ${i === 0 ? "font-medium" : ""}`}
+                  onClick={() => moveHistory("undo", i)}
+                  title={i === 0 ? "Latest step" : "Undo back to here"}
+                >
+                  <span className="flex-1 truncate">{h.label}</span>
+                  <span className="text-slate-500">{new Date(h.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+                </button>
+              ))}
+            </div>
+          </details>
+        </div>
         <div className="flex items-center gap-2 ml-auto">
+          <a className="px-2 py-1 rounded border text-sm" href="#/driver" title="One truck's day, with status buttons for the driver">
+            Driver view
+          </a>
+          <label className="flex items-center gap-2 text-sm">
+            Workspace:
+            <select className="border rounded px-1 py-0.5 text-sm" value={workspace} onChange={(e) => onSwitch(e.target.value)}>
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+          </label>
+          <details className="relative">
+            <summary className="px-2 py-1 rounded border cursor-pointer list-none text-sm">Workspaces</summary>
+            <div className="absolute right-0 z-20 mt-1 w-[28rem] rounded border bg-white shadow">
+              <WorkspacePanel
+                workspaces={workspaces}
+                current={workspace}
+                dataOf={workspaceData}
+                onSwitch={onSwitch}
+                onAdd={addWorkspace}
+                onRemove={removeWorkspace}
+                onCopy={copyRecords}
+              />
+            </div>
+          </details>
           <label className="flex items-center gap-2 text-sm">
-            <input type="checkbox" checked={sharedOn} onChange={(e) => setSharedOn(e.target.checked)} />
             Shared:
-            <span
-              className={`text-xs ${sharedOn ? (sharedInfo.connected ? "text-green-600" : "text-slate-500") : "text-slate-500"}`}
-              title={sharedInfo.error || ""}
+            <select
+              className="border rounded px-1 py-0.5 text-sm"
+              value={storage.kind}
+              onChange={(e) => setStorage((s) => ({ ...s, kind: e.target.value as AdapterKind }))}
+              title={workspace === DEFAULT_WORKSPACE.id ? `${DEFAULT_WORKSPACE.name} stays in this browser; add a workspace to share a plan` : undefined}
             >
-              {sharedOn ? (sharedInfo.connected ? "online" : sharedInfo.error ? "error" : "connecting…") : "off"}
-            </span>
+              {(Object.keys(ADAPTER_LABELS) as AdapterKind[]).map((k) => (
+                <option key={k} value={k} disabled={workspace === DEFAULT_WORKSPACE.id && k !== "off" && k !== "local"}>
+                  {ADAPTER_LABELS[k]}
+                </option>
+              ))}
+            </select>
           </label>
-          <div className="text-xs text-slate-500">
-            {sharedInfo.lastSync ? `synced ${sharedInfo.lastSync.toLocaleTimeString()}` : ""}
-          </div>
+          {storage.kind === "rest" && (
+            <input
+              key={storage.url}
+              className="border rounded px-1 py-0.5 text-xs w-48"
+              placeholder={ENV.REST_URL || "https://server/api"}
+              defaultValue={storage.url || ""}
+              onBlur={(e) => e.target.value.trim() !== (storage.url || "") && setStorage((s) => ({ ...s, url: e.target.value.trim() || undefined }))}
+              title="REST server URL"
+            />
+          )}
+          {sharedOn && <SyncStatusView status={sharedInfo} conflicts={conflicts.length} onRetry={() => syncRef.current?.retry()} />}
+          <details className="relative">
+            <summary className="px-2 py-1 rounded border cursor-pointer list-none text-sm" title={ROLE_HINTS[role]}>
+              {account ? account.name : "Sign in"} · {ROLE_LABELS[role]}
+            </summary>
+            <div className="absolute right-0 z-20 mt-1 w-96 rounded border bg-white shadow">
+              <AccountPanel
+                account={account}
+                role={role}
+                local={storage.kind === "off" || storage.kind === "local" ? localAccounts : null}
+                drivers={drivers}
+                onSignIn={signIn}
+                onSignOut={signOut}
+              />
+            </div>
+          </details>
         </div>
       </div>
 
+      {conflicts.length > 0 && <ConflictPanel conflicts={conflicts} onResolve={resolveConflict} />}
+
+      {recovery.length > 0 && (
+        <RecoveryPanel
+          items={recovery}
+          onRestore={restoreRecord}
+          onDiscard={(ids) => setRecovery((r) => r.filter((x) => !ids.includes(x.id)))}
+        />
+      )}
+
       {/* Settings */}
       <div className="grid md:grid-cols-3 gap-4">
         <div className="p-3 rounded-lg border bg-white">
@@ -467,15 +1681,25 @@ const segmentsFor = (j: Job): Segment[] => {
                 onClick={() => setSettings((s) => ({ ...s, activeDay: d }))}
                 className={`px-2 py-1 rounded border ${activeDay === d ? "bg-slate-900 text-white" : "bg-white"}`}
               >
-                {d}
+                {d} <span className="text-[10px] opacity-70">{dateOfDay(weekOf, d).slice(5)}</span>
               </button>
             ))}
           </div>
           <div className="flex gap-2 items-center mb-2">
-            <label className="text-sm">Start</label>
+            <label className="text-sm">Week of</label>
             <input
-              className="border rounded px-2 py-1 w-24"
+              type="date"
+              className="border rounded px-2 py-1"
+              value={weekOf}
+              onChange={(e) => isISODate(e.target.value) && setSettings((s) => ({ ...s, weekOf: mondayOf(e.target.value) }))}
+            />
+          </div>
+          <div className="flex gap-2 items-center mb-2">
+            <label className="text-sm">Start</label>
+            <input
+              className="border rounded px-2 py-1 w-24"
               defaultValue={startTime}
+              disabled={!can("settings")}
               onBlur={(e) => setSettings((s) => ({ ...s, startTime: e.target.value }))}
               placeholder="07:00"
             />
@@ -483,6 +1707,7 @@ const segmentsFor = (j: Job): Segment[] => {
             <input
               className="border rounded px-2 py-1 w-24"
               defaultValue={endTime}
+              disabled={!can("settings")}
               onBlur={(e) => setSettings((s) => ({ ...s, endTime: e.target.value }))}
               placeholder="18:00"
             />
@@ -493,6 +1718,7 @@ const segmentsFor = (j: Job): Segment[] => {
               type="number"
               className="border rounded px-2 py-1 w-20"
               value={gap}
+              disabled={!can("settings")}
               onChange={(e) => setSettings((s) => ({ ...s, gap: parseInt(e.target.value || "0") }))}
               min={5}
               step={5}
@@ -502,36 +1728,53 @@ const segmentsFor = (j: Job): Segment[] => {
               type="number"
               className="border rounded px-2 py-1 w-24"
               value={bufferBetweenJobs}
+              disabled={!can("settings")}
               onChange={(e) => setSettings((s) => ({ ...s, bufferBetweenJobs: parseInt(e.target.value || "0") }))}
               min={0}
               step={5}
             />
-            <button className="ml-auto px-3 py-1 rounded bg-slate-900 text-white" onClick={autoSchedule}>Auto</button>
+            <button className="ml-auto px-3 py-1 rounded bg-slate-900 text-white disabled:opacity-40" disabled={!can("scheduled")} onClick={autoSchedule}>Auto</button>
           </div>
         </div>
 
         {/* Trucks */}
-        <div className="p-3 rounded-lg border bg-white">
+        <fieldset className={`p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("trucks")}>
           <div className="flex items-center mb-2">
             <div className="font-medium">Trucks</div>
             <button className="ml-auto px-2 py-1 rounded border" onClick={addTruck}>+ Add</button>
           </div>
           <div className="space-y-2 max-h-64 overflow-auto pr-1">
             {trucks.map((t) => (
-              <div key={t.id} className="flex items-center gap-2">
-                <input
-                  className="border rounded px-2 py-1 flex-1"
-                  value={t.name}
-                  onChange={(e) => setTrucks((arr) => arr.map((x) => (x.id === t.id ? { ...x, name: e.target.value } : x)))}
-                />
-                <button className="px-2 py-1 rounded border" onClick={() => removeTruck(t.id)}>Del</button>
+              <div key={t.id}>
+                <div className="flex items-center gap-2">
+                  <input
+                    className="border rounded px-2 py-1 flex-1"
+                    value={t.name}
+                    onChange={(e) => updateTruck(t.id, { name: e.target.value })}
+                  />
+                  <button className="px-2 py-1 rounded border" onClick={() => removeTruck(t.id)}>Del</button>
+                </div>
+                <div className="flex gap-1 mt-1">
+                  {DIMENSIONS.map((d) => (
+                    <input
+                      key={d.key}
+                      type="number"
+                      min={0}
+                      className="border rounded px-1 py-0.5 w-full text-xs"
+                      value={t.capacity?.[d.key] ?? ""}
+                      onChange={(e) => updateTruck(t.id, { capacity: { ...t.capacity, [d.key]: e.target.value === "" ? undefined : parseFloat(e.target.value) } })}
+                      placeholder={`max ${d.unit}`}
+                      title={`${d.label} capacity (${d.unit}); empty = no limit`}
+                    />
+                  ))}
+                </div>
               </div>
             ))}
           </div>
-        </div>
+        </fieldset>
 
         {/* Clients (with labeled defaults) */}
-        <div className="p-3 rounded-lg border bg-white">
+        <fieldset className={`p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("clients")}>
           <div className="flex items-center mb-2">
             <div className="font-medium">Clients</div>
             <button className="ml-auto px-2 py-1 rounded border" onClick={addClient}>+ Add</button>
@@ -575,6 +1818,36 @@ const segmentsFor = (j: Job): Segment[] => {
                   <button className="px-2 py-1 rounded border w-full" onClick={() => removeClient(c.id)}>Del</button>
                 </div>
 
+                <div className="col-span-3">
+                  <label className="block text-xs text-slate-500 mb-1">Address</label>
+                  <div className="flex gap-1">
+                    <input
+                      className="border rounded px-2 py-1 w-full"
+                      value={c.address || ""}
+                      onChange={(e) => updateClient(c.id, { address: e.target.value })}
+                      placeholder="Street, town"
+                    />
+                    <button
+                      className="px-2 py-1 rounded border"
+                      onClick={() => locate(c.address, (location) => updateClient(c.id, { location }))}
+                      title={`Look up coordinates for this address (sends it to ${geocodeHost(ENV.GEOCODE)})`}
+                    >
+                      Find
+                    </button>
+                  </div>
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-xs text-slate-500 mb-1">Lat, lng</label>
+                  <input
+                    key={latLngLabel(c.location)}
+                    className="border rounded px-2 py-1 w-full"
+                    defaultValue={latLngLabel(c.location)}
+                    onBlur={(e) => updateClient(c.id, { location: parseLatLng(e.target.value) })}
+                    placeholder="51.50735, -0.12776"
+                  />
+                </div>
+
                 <div className="col-span-5">
                   <label className="block text-xs text-slate-500 mb-1">Notes</label>
                   <textarea
@@ -587,13 +1860,359 @@ const segmentsFor = (j: Job): Segment[] => {
               </div>
             ))}
           </div>
-        </div>
+        </fieldset>
       </div>
 
+      {/* Depot & travel */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("settings")}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Depot &amp; travel</div>
+          <div className="ml-2 text-xs text-slate-500">
+            Travel minutes are computed from the depot and client locations unless typed in on the job
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Depot address</label>
+            <div className="flex gap-1">
+              <input
+                className="border rounded px-2 py-1 w-64"
+                value={settings.depot?.address || ""}
+                onChange={(e) => updateDepot({ address: e.target.value })}
+                placeholder="Street, town"
+              />
+              <button className="px-2 py-1 rounded border" onClick={() => locate(settings.depot?.address, (location) => updateDepot({ location }))}>
+                Find
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Depot lat, lng</label>
+            <input
+              key={latLngLabel(settings.depot?.location)}
+              className="border rounded px-2 py-1 w-48"
+              defaultValue={latLngLabel(settings.depot?.location)}
+              onBlur={(e) => updateDepot({ location: parseLatLng(e.target.value) })}
+              placeholder="51.50735, -0.12776"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Average speed (km/h)</label>
+            <input
+              type="number"
+              min={1}
+              className="border rounded px-2 py-1 w-24"
+              value={travelModel.speedKmh}
+              onChange={(e) => updateTravel({ speedKmh: Math.max(1, parseInt(e.target.value || "0")) })}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Distance matrix (CSV: from,to,minutes)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="text-xs"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) loadMatrixFile(f);
+                  e.target.value = "";
+                }}
+              />
+              <label className="text-sm flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={travelModel.useMatrix}
+                  onChange={(e) => updateTravel({ useMatrix: e.target.checked })}
+                  disabled={!Object.keys(matrix).length}
+                />
+                Use matrix ({Object.keys(matrix).length} legs)
+              </label>
+              {Object.keys(matrix).length > 0 && (
+                <button className="px-2 py-1 rounded border text-sm" onClick={() => { setMatrix({}); updateTravel({ useMatrix: false }); }}>
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="mt-2 text-xs text-slate-500">
+          Find sends the address you look up to {geocodeHost(ENV.GEOCODE)}, one lookup a second.
+        </div>
+        {geoError && <div className="mt-2 text-xs text-rose-600">{geoError}</div>}
+        {matrixErrors.length > 0 && (
+          <div className="mt-2 text-xs text-rose-600">
+            {matrixErrors.slice(0, 5).map((m) => <div key={m}>{m}</div>)}
+            {matrixErrors.length > 5 && <div>…and {matrixErrors.length - 5} more</div>}
+          </div>
+        )}
+      </fieldset>
+
+      {/* Drivers */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("drivers")}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Drivers</div>
+          <div className="ml-2 text-xs text-slate-500">Assign a driver per truck on the schedule below</div>
+          <button className="ml-auto px-2 py-1 rounded border" onClick={addDriver}>+ Add</button>
+        </div>
+        <div className="space-y-2 max-h-64 overflow-auto pr-1">
+          {drivers.map((d) => (
+            <div key={d.id} className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Name</label>
+                <input className="border rounded px-2 py-1 w-40" value={d.name} onChange={(e) => updateDriver(d.id, { name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Shift</label>
+                <div className="flex items-center gap-1">
+                  <input
+                    className="border rounded px-2 py-1 w-20"
+                    defaultValue={d.shiftStart}
+                    onBlur={(e) => isHHMM(e.target.value) && updateDriver(d.id, { shiftStart: e.target.value })}
+                    placeholder="07:00"
+                  />
+                  –
+                  <input
+                    className="border rounded px-2 py-1 w-20"
+                    defaultValue={d.shiftEnd}
+                    onBlur={(e) => isHHMM(e.target.value) && updateDriver(d.id, { shiftEnd: e.target.value })}
+                    placeholder="18:00"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Max driving (min)</label>
+                <input
+                  type="number"
+                  className="border rounded px-2 py-1 w-24"
+                  value={d.maxDrivingMin}
+                  onChange={(e) => updateDriver(d.id, { maxDrivingMin: parseInt(e.target.value || "0") })}
+                  step={15}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Max duty (min)</label>
+                <input
+                  type="number"
+                  className="border rounded px-2 py-1 w-24"
+                  value={d.maxDutyMin}
+                  onChange={(e) => updateDriver(d.id, { maxDutyMin: parseInt(e.target.value || "0") })}
+                  step={15}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Days off</label>
+                <div className="flex gap-1">
+                  {DAYS.map((day) => (
+                    <button
+                      key={day}
+                      className={`px-1.5 py-1 rounded border text-xs ${d.daysOff.includes(day) ? "bg-slate-900 text-white" : "bg-white text-slate-500"}`}
+                      onClick={() =>
+                        updateDriver(d.id, { daysOff: DAYS.filter((x) => (x === day ? !d.daysOff.includes(day) : d.daysOff.includes(x))) })
+                      }
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <button className="px-2 py-1 rounded border" onClick={() => removeDriver(d.id)}>Del</button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center mt-3 mb-2 pt-3 border-t">
+          <div className="font-medium">Rest breaks</div>
+          <div className="ml-2 text-xs text-slate-500">Auto-schedule inserts breaks between jobs; drag a break to pin it</div>
+          <div className="ml-auto flex gap-2">
+            <button className="px-2 py-1 rounded border" onClick={() => addBreakRule("driving")}>+ Driving break</button>
+            <button className="px-2 py-1 rounded border" onClick={() => addBreakRule("window")}>+ Lunch</button>
+          </div>
+        </div>
+        <div className="space-y-2">
+          {breakRules.length === 0 && <div className="text-xs text-slate-500">No break rules.</div>}
+          {breakRules.map((r) => (
+            <div key={r.id} className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Label</label>
+                <input className="border rounded px-2 py-1 w-40" value={r.label} onChange={(e) => updateBreakRule(r.id, { label: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Break (min)</label>
+                <input
+                  type="number"
+                  className="border rounded px-2 py-1 w-20"
+                  value={r.minutes}
+                  onChange={(e) => updateBreakRule(r.id, { minutes: Math.max(1, parseInt(e.target.value || "0")) })}
+                  step={5}
+                />
+              </div>
+              {r.kind === "driving" ? (
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">After driving (min)</label>
+                  <input
+                    type="number"
+                    className="border rounded px-2 py-1 w-24"
+                    value={r.afterDrivingMin}
+                    onChange={(e) => updateBreakRule(r.id, { afterDrivingMin: Math.max(1, parseInt(e.target.value || "0")) })}
+                    step={15}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">Between</label>
+                  <div className="flex items-center gap-1">
+                    <input
+                      className="border rounded px-2 py-1 w-20"
+                      defaultValue={r.from}
+                      onBlur={(e) => isHHMM(e.target.value) && updateBreakRule(r.id, { from: e.target.value })}
+                      placeholder="11:30"
+                    />
+                    –
+                    <input
+                      className="border rounded px-2 py-1 w-20"
+                      defaultValue={r.to}
+                      onBlur={(e) => isHHMM(e.target.value) && updateBreakRule(r.id, { to: e.target.value })}
+                      placeholder="13:30"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="text-xs text-slate-500 pb-1.5">{ruleLabel(r)}</div>
+              <button className="px-2 py-1 rounded border" onClick={() => removeBreakRule(r.id)}>Del</button>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Truck unavailability */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("trucks")}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Truck unavailability</div>
+          <div className="ml-2 text-xs text-slate-500">Service or breakdown windows; nothing is planned inside them</div>
+        </div>
+        <div className="space-y-2">
+          {trucks.map((t) => (
+            <div key={t.id} className="flex flex-wrap items-start gap-2">
+              <div className="w-32 pt-1 text-sm font-medium truncate">{t.name}</div>
+              <div className="flex-1 space-y-1">
+                {(t.unavailable || []).map((u) => {
+                  const hit = scheduled.filter(
+                    (r) => !isBreak(r) && r.truckId === t.id && r.day === u.day && r.startMin < toMin(u.to) && r.endMin > toMin(u.from)
+                  ).length;
+                  return (
+                    <div key={u.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <select
+                        className="border rounded px-1 py-1"
+                        value={u.day}
+                        onChange={(e) => updateUnavailability(t.id, u.id, { day: e.target.value as DayKey })}
+                      >
+                        {DAYS.map((d) => (
+                          <option key={d} value={d}>{d}</option>
+                        ))}
+                      </select>
+                      <input
+                        className="border rounded px-2 py-1 w-20"
+                        defaultValue={u.from}
+                        onBlur={(e) => isHHMM(e.target.value) && updateUnavailability(t.id, u.id, { from: e.target.value })}
+                        placeholder="08:00"
+                      />
+                      –
+                      <input
+                        className="border rounded px-2 py-1 w-20"
+                        defaultValue={u.to}
+                        onBlur={(e) => isHHMM(e.target.value) && updateUnavailability(t.id, u.id, { to: e.target.value })}
+                        placeholder="12:00"
+                      />
+                      <input
+                        className="border rounded px-2 py-1 w-48"
+                        value={u.reason}
+                        onChange={(e) => updateUnavailability(t.id, u.id, { reason: e.target.value })}
+                        placeholder="Reason"
+                      />
+                      {hit > 0 && (
+                        <span className="text-xs text-rose-600">
+                          {hit} job{hit > 1 ? "s" : ""} inside — reassign from Conflicts
+                        </span>
+                      )}
+                      <button className="px-2 py-1 rounded border" onClick={() => removeUnavailability(t.id, u.id)}>Del</button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button className="px-2 py-1 rounded border text-sm" onClick={() => addUnavailability(t.id)}>+ Block {activeDay}</button>
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      {/* Optimizer proposal */}
+      {proposal && currentScore && (
+        <div className="mt-4 p-3 rounded-lg border border-sky-300 bg-sky-50">
+          <div className="flex items-center mb-2">
+            <div className="font-medium">Optimizer proposal — {proposal.scope === "week" ? "whole week" : proposal.scope}</div>
+            <div className="ml-auto flex gap-2">
+              <button className="px-3 py-1 rounded bg-slate-900 text-white disabled:opacity-40" disabled={!can("scheduled")} onClick={acceptProposal}>Accept</button>
+              <button className="px-3 py-1 rounded border bg-white" onClick={() => setProposal(null)}>Discard</button>
+            </div>
+          </div>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="pr-6 font-normal"></th>
+                <th className="pr-6 font-normal">Current</th>
+                <th className="pr-6 font-normal">Proposed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {([
+                ["Jobs placed", (s) => String(s.placed)],
+                ["Unplaced", (s) => String(s.unplaced)],
+                ["Lateness (min)", (s) => String(s.lateness)],
+                ["Last job ends", (s) => toHHMM(s.makespan)],
+                ["Idle gaps (min)", (s) => String(s.idle)],
+                ["Score (lower is better)", (s) => String(s.total)],
+              ] as [string, (s: PlanResult["score"]) => string][]).map(([label, fmt]) => (
+                <tr key={label}>
+                  <td className="pr-6 text-slate-600">{label}</td>
+                  <td className="pr-6">{fmt(currentScore)}</td>
+                  <td className="pr-6 font-medium">{fmt(proposal.result.score)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {proposal.result.unplaced.length > 0 && (
+            <div className="mt-2 text-xs text-slate-600">
+              Could not place:{" "}
+              {proposal.result.unplaced
+                .map((id) => {
+                  const j = jobById[id];
+                  return j ? `${j.type}: ${(j.clientId && clientById[j.clientId]?.name) || j.title}` : id;
+                })
+                .join(", ")}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Jobs */}
-      <div className="mt-4 p-3 rounded-lg border bg-white">
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("jobs")}>
         <div className="flex items-center mb-2">
           <div className="font-medium">Jobs</div>
+          <div className="ml-3 flex text-xs">
+            <button
+              className={`px-2 py-0.5 rounded-l border ${jobsFilter === "day" ? "bg-slate-900 text-white" : "bg-white"}`}
+              onClick={() => setJobsFilter("day")}
+            >
+              {activeDay} ({jobsOn(jobs, activeDay).length})
+            </button>
+            <button
+              className={`px-2 py-0.5 rounded-r border border-l-0 ${jobsFilter === "all" ? "bg-slate-900 text-white" : "bg-white"}`}
+              onClick={() => setJobsFilter("all")}
+            >
+              All week ({jobs.length})
+            </button>
+          </div>
           <div className="ml-auto flex gap-2">
             <button className="px-2 py-1 rounded border" onClick={() => addJob("Collection")}>+ Collection</button>
             <button className="px-2 py-1 rounded border" onClick={() => addJob("Delivery")}>+ Delivery</button>
@@ -601,7 +2220,7 @@ const segmentsFor = (j: Job): Segment[] => {
         </div>
 
         <div className="space-y-3 max-h-80 overflow-auto pr-1">
-          {jobs.map((j) => (
+          {(jobsFilter === "day" ? jobsOn(jobs, activeDay) : jobs).map((j) => (
             <div key={j.id} className="grid md:grid-cols-12 gap-2 items-start">
               <div className="md:col-span-2">
                 <label className="block text-xs text-slate-500 mb-1">Type</label>
@@ -649,12 +2268,26 @@ const segmentsFor = (j: Job): Segment[] => {
               </div>
 
               <div>
-                <label className="block text-xs text-slate-500 mb-1">Travel (min)</label>
+                <label className="block text-xs text-slate-500 mb-1">
+                  Travel (min)
+                  {computedTravel(j, travelCtx) &&
+                    (j.travelManual ? (
+                      <button
+                        className="ml-1 text-sky-700 underline"
+                        onClick={() => updateJob(j.id, withTravel({ ...j, travelManual: false }, travelCtx))}
+                        title="Use the travel time computed from the depot and client locations"
+                      >
+                        auto
+                      </button>
+                    ) : (
+                      <span className="ml-1 text-emerald-700" title="Computed from the depot and client locations">• computed</span>
+                    ))}
+                </label>
                 <input
                   type="number"
                   className="border rounded px-2 py-1 w-24"
                   value={j.travelMin}
-                  onChange={(e) => updateJob(j.id, { travelMin: parseInt(e.target.value || "0") })}
+                  onChange={(e) => updateJob(j.id, { travelMin: parseInt(e.target.value || "0"), travelManual: true })}
                 />
               </div>
 
@@ -677,11 +2310,29 @@ const segmentsFor = (j: Job): Segment[] => {
     type="number"
     className="border rounded px-2 py-1 w-28"
     value={j.returnTravelMin}
-    onChange={(e) => updateJob(j.id, { returnTravelMin: parseInt(e.target.value || "0") })}
+    onChange={(e) => updateJob(j.id, { returnTravelMin: parseInt(e.target.value || "0"), travelManual: true })}
   />
 </div>
               )}
 
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Load size</label>
+                <div className="flex gap-1">
+                  {DIMENSIONS.map((d) => (
+                    <input
+                      key={d.key}
+                      type="number"
+                      min={0}
+                      className="border rounded px-1 py-1 w-full text-xs"
+                      value={j.size?.[d.key] ?? ""}
+                      onChange={(e) => updateJob(j.id, { size: { ...j.size, [d.key]: e.target.value === "" ? undefined : parseFloat(e.target.value) } })}
+                      placeholder={d.unit}
+                      title={`${d.label} (${d.unit})`}
+                    />
+                  ))}
+                </div>
+              </div>
+
               <div>
                 <label className="block text-xs text-slate-500 mb-1">Earliest (HH:MM)</label>
                 <input
@@ -702,6 +2353,39 @@ const segmentsFor = (j: Job): Segment[] => {
                 />
               </div>
 
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Window</label>
+                <select
+                  className="border rounded px-2 py-1 w-24"
+                  value={j.windowMode || "soft"}
+                  onChange={(e) => updateJob(j.id, { windowMode: e.target.value as WindowMode })}
+                  title="Hard: never place outside the window. Soft: place, but flag minutes early/late."
+                >
+                  <option value="soft">Soft</option>
+                  <option value="hard">Hard</option>
+                </select>
+              </div>
+
+              <div className="md:col-span-3 flex items-end gap-2 text-xs">
+                {j.templateId ? (
+                  <>
+                    <span className="px-2 py-1 rounded bg-violet-100 text-violet-800" title="Edits here change this occurrence only">
+                      Recurring • {j.occurrence}{j.detached ? " • edited" : ""}
+                    </span>
+                    {j.detached && (
+                      <button className="px-2 py-1 rounded border" onClick={() => applyToFuture(j.id)} title="Apply this occurrence's fields to all future occurrences">
+                        Apply to all future
+                      </button>
+                    )}
+                    <button className="px-2 py-1 rounded border" onClick={() => skipOccurrence(j.id)}>Skip date</button>
+                  </>
+                ) : (
+                  <button className="px-2 py-1 rounded border" onClick={() => makeRecurring(j.id)} title="Repeat this job every week on its days">
+                    Make recurring
+                  </button>
+                )}
+              </div>
+
               <div className="flex items-end gap-2">
                 <button
                   className="px-2 py-1 rounded border"
@@ -713,6 +2397,22 @@ const segmentsFor = (j: Job): Segment[] => {
                 <button className="px-2 py-1 rounded border" onClick={() => removeJob(j.id)}>Del</button>
               </div>
 
+              <div className="md:col-span-3">
+                <label className="block text-xs text-slate-500 mb-1">Days</label>
+                <div className="flex gap-1">
+                  {DAYS.map((d) => (
+                    <button
+                      key={d}
+                      className={`px-1.5 py-1 rounded border text-xs ${isJobOn(j, d) ? "bg-slate-900 text-white" : "bg-white text-slate-500"}`}
+                      onClick={() => toggleJobDay(j.id, d)}
+                      title={isJobOn(j, d) ? `Remove ${d} (also takes it off ${d}'s schedule)` : `Also do this job on ${d}`}
+                    >
+                      {d}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div className="md:col-span-12">
                 <label className="block text-xs text-slate-500 mb-1">Notes</label>
                 <textarea
@@ -725,10 +2425,141 @@ const segmentsFor = (j: Job): Segment[] => {
             </div>
           ))}
         </div>
-      </div>
+      </fieldset>
+
+      {/* Recurring templates */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("templates")}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Recurring templates</div>
+          <div className="ml-2 text-xs text-slate-500">Edits apply to every occurrence not yet on the schedule</div>
+          <div className="ml-auto flex gap-2">
+            <button className="px-2 py-1 rounded border" onClick={() => addTemplate("Collection")}>+ Collection</button>
+            <button className="px-2 py-1 rounded border" onClick={() => addTemplate("Delivery")}>+ Delivery</button>
+          </div>
+        </div>
+        <div className="space-y-3 max-h-80 overflow-auto pr-1">
+          {templates.map((t) => (
+            <div key={t.id} className="grid md:grid-cols-12 gap-2 items-start border-t pt-2">
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Type</label>
+                <select className="border rounded px-2 py-1 w-full" value={t.job.type} onChange={(e) => updateTemplateJob(t.id, { type: e.target.value as JobType })}>
+                  <option>Delivery</option>
+                  <option>Collection</option>
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Title</label>
+                <input className="border rounded px-2 py-1 w-full" value={t.job.title} onChange={(e) => updateTemplateJob(t.id, { title: e.target.value })} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Client</label>
+                <select
+                  className="border rounded px-2 py-1 w-full"
+                  value={t.job.clientId || ""}
+                  onChange={(e) => {
+                    const c = clientById[e.target.value];
+                    const job = withTravel(
+                      {
+                        ...t.job,
+                        clientId: e.target.value || null,
+                        travelMin: c?.defaultTravelMin ?? t.job.travelMin,
+                        onsiteMin: c?.defaultOnsiteMin ?? t.job.onsiteMin,
+                        travelManual: false,
+                      },
+                      travelCtx
+                    );
+                    updateTemplateJob(t.id, job);
+                  }}
+                >
+                  <option value="">— Client —</option>
+                  {clients.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-xs text-slate-500 mb-1">Every</label>
+                <div className="flex gap-1">
+                  {DAYS.map((d) => (
+                    <button
+                      key={d}
+                      className={`px-1.5 py-1 rounded border text-xs ${t.days.includes(d) ? "bg-slate-900 text-white" : "bg-white text-slate-500"}`}
+                      onClick={() => updateTemplate(t.id, { days: DAYS.filter((x) => (x === d ? !t.days.includes(d) : t.days.includes(x))) })}
+                    >
+                      {d}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">From</label>
+                <input
+                  type="date"
+                  className="border rounded px-1 py-1 w-full text-xs"
+                  value={t.startDate}
+                  onChange={(e) => isISODate(e.target.value) && updateTemplate(t.id, { startDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Until</label>
+                <input
+                  type="date"
+                  className="border rounded px-1 py-1 w-full text-xs"
+                  value={t.endDate || ""}
+                  onChange={(e) => updateTemplate(t.id, { endDate: isISODate(e.target.value) ? e.target.value : undefined })}
+                />
+              </div>
+              <div className="flex items-end">
+                <button className="px-2 py-1 rounded border w-full" onClick={() => removeTemplate(t.id)}>Del</button>
+              </div>
+
+              <div className="md:col-span-12 flex flex-wrap gap-3 items-end">
+                {([
+                  [t.job.type === "Delivery" ? "Load (min)" : "Off-site load (min)", "loadMin"],
+                  ["Travel (min)", "travelMin"],
+                  [t.job.type === "Delivery" ? "Offload (min)" : "On-site (min)", "onsiteMin"],
+                  ["Return (min)", "returnTravelMin"],
+                ] as [string, "loadMin" | "travelMin" | "onsiteMin" | "returnTravelMin"][]).map(([label, key]) => (
+                  <div key={key}>
+                    <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-24"
+                      value={t.job[key]}
+                      onChange={(e) =>
+                        updateTemplateJob(t.id, {
+                          [key]: parseInt(e.target.value || "0"),
+                          ...(key === "travelMin" || key === "returnTravelMin" ? { travelManual: true } : {}),
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+                {t.skipDates.length > 0 && (
+                  <div className="text-xs">
+                    <div className="text-slate-500 mb-1">Skipped</div>
+                    <div className="flex flex-wrap gap-1">
+                      {t.skipDates.map((d) => (
+                        <span key={d} className="px-1.5 py-0.5 rounded border bg-slate-50">
+                          {d}
+                          <button
+                            className="ml-1 text-slate-400 hover:text-slate-700"
+                            onClick={() => updateTemplate(t.id, { skipDates: t.skipDates.filter((x) => x !== d) })}
+                            title="Un-skip"
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </fieldset>
 
       {/* Quick place (uses CLIENT NAME) */}
-      <div className="mt-4 p-3 rounded-lg border bg-white">
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("scheduled")}>
         <div className="font-medium mb-2">Quick place</div>
         <QuickPlace
           jobs={jobs}
@@ -737,102 +2568,634 @@ const segmentsFor = (j: Job): Segment[] => {
           onPlace={(jobId, truckId) => {
             const j = jobById[jobId];
             if (!j) return;
-            const dur = jobDuration(j);
-            const existing = scheduled
-              .filter((s) => s.day === activeDay && s.truckId === truckId && jobById[s.jobId])
-              .sort((a, b) => a.startMin - b.startMin);
-
-            const snap = (m: number) => Math.ceil(m / gap) * gap;
-            let cur = toMin(settings.startTime);
-            const end = toMin(settings.endTime);
-
-            const fitsAt = (st: number) => {
-              const en = st + dur;
-              for (const r of existing) if (en > r.startMin && st < r.endMin) return false;
-              return en <= end;
-            };
-
-            while (cur + dur <= end) {
-              cur = snap(cur);
-              if (fitsAt(cur)) {
-                placeOnSchedule(jobId, truckId, activeDay, cur, cur + dur);
-                break;
-              }
-              cur += gap;
+            const st = earliestSlotOnTruck(j, truckId);
+            if (st == null) {
+              const x = exceeds(j.size, truckById[truckId]?.capacity);
+              alert(
+                x ? `This truck is too small: the job needs ${x.need} ${x.unit}, the truck carries ${x.have}.`
+                : isHardWindow(j) && hasWindow(j)
+                  ? "No free slot on this truck inside the job's hard time window."
+                  : "No free slot on this truck within the day window."
+              );
+              return;
             }
+            placeOnSchedule(jobId, truckId, activeDay, st, st + jobDuration(j));
           }}
         />
-      </div>
-
-      {/* Schedule */}
-      <div className="mt-4 p-3 rounded-lg border bg-white">
-        <div className="font-medium mb-2">Schedule — {activeDay}</div>
+      </fieldset>
 
-        {/* Hour ruler with labels */}
-        <div className="relative h-8 border rounded mb-2 overflow-hidden bg-white">
-          {marks.map((mk) => (
-            <div key={mk.m} className="absolute top-0 bottom-0" style={{ left: `${((mk.m - startMin) / (endMin - startMin)) * 100}%` }}>
-              <div className="h-full w-px bg-slate-200" />
-              <div className="absolute -translate-x-1/2 text-[10px] top-0">{mk.label}</div>
+      {/* Import & export */}
+      <div className={`mt-4 grid md:grid-cols-3 gap-4${adminOnly}`}>
+        <fieldset className="md:col-span-2 p-3 rounded-lg border bg-white min-w-0" disabled={!can("jobs") || !can("clients")}>
+          <div className="font-medium mb-2">Import jobs &amp; clients</div>
+          <ImportPanel
+            clients={clients}
+            trucks={trucks}
+            fallbackDay={activeDay}
+            travel={travelCtx}
+            onImportJobs={importJobRows}
+            onImportClients={importClientRows}
+          />
+        </fieldset>
+        <div className="p-3 rounded-lg border bg-white">
+          <div className="font-medium mb-2">Export schedule</div>
+          {(["day", "week"] as const).map((scope) => (
+            <div key={scope} className="flex gap-2 items-center mb-2">
+              <span className="text-sm w-28">{scope === "day" ? `${activeDay} ${dateOfDay(weekOf, activeDay).slice(5)}` : `Week of ${weekOf.slice(5)}`}</span>
+              <button className="px-2 py-1 rounded border text-sm" onClick={() => exportSchedule(scope, "csv")}>CSV</button>
+              <button className="px-2 py-1 rounded border text-sm" onClick={() => exportSchedule(scope, "xlsx")}>Excel</button>
             </div>
           ))}
+          <div className="text-xs text-slate-500">One line per job or break: truck, driver, times and each phase.</div>
+          <div className="font-medium mt-3 mb-2">Calendar (.ics)</div>
+          <div className="flex gap-2 items-center">
+            <select className="border rounded px-2 py-1 text-sm flex-1 min-w-0" value={calendarScope} onChange={(e) => setCalendarScope(e.target.value)}>
+              <option value="fleet">Whole fleet</option>
+              <optgroup label="Truck">
+                {trucks.map((t) => (
+                  <option key={t.id} value={`truck:${t.id}`}>{t.name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Client">
+                {clients.map((c) => (
+                  <option key={c.id} value={`client:${c.id}`}>{c.name}</option>
+                ))}
+              </optgroup>
+            </select>
+            <button className="px-2 py-1 rounded border text-sm" onClick={exportCalendar}>Download</button>
+          </div>
+          <div className="text-xs text-slate-500 mt-1">
+            The planned week; importing a newer file updates the same events instead of adding copies.
+          </div>
         </div>
+      </div>
 
-        {/* Truck rows */}
-        <div className="space-y-3">
-          {trucks.map((t) => {
-            const rows = scheduled
-              .filter((s) =>
-                s.day === activeDay &&
-                s.truckId === t.id &&
-                s.startMin != null &&
-                s.endMin != null &&
-                jobById[s.jobId] // only with existing jobs
-              )
-              .sort((a, b) => a.startMin - b.startMin);
-
-            const unscheduled = scheduled
-              .filter((s) =>
-                s.day === activeDay && (!s.truckId || s.startMin == null || s.endMin == null)
-              )
-              .filter((s) => jobById[s.jobId]);
-
-            return (
-              <div key={t.id} className="border rounded">
-                <div className="px-2 py-1 bg-slate-50 border-b flex items-center justify-between">
-                  <div className="font-medium">{t.name}</div>
-                </div>
+      {/* Backup & restore */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!canWriteAll}>
+        <div className="font-medium mb-2">Backup &amp; restore</div>
+        <BackupPanel
+          current={storedState}
+          snapshots={snapshots}
+          onSnapshot={() => snapshotNow("Manual")}
+          onApply={replaceStored}
+        />
+      </fieldset>
 
-                {/* Timeline for this truck */}
-                <div className="relative h-16 bg-white">
-                  {marks.map((mk) => (
-                    <div
-                      key={mk.m + ":grid"}
-                      className="absolute top-0 bottom-0"
-                      style={{ left: `${((mk.m - startMin) / (endMin - startMin)) * 100}%` }}
+      {/* Week board */}
+      <div className="mt-4 p-3 rounded-lg border bg-white">
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Week</div>
+          <button className="ml-auto px-3 py-1 rounded bg-slate-900 text-white disabled:opacity-40" disabled={!can("scheduled")} onClick={autoScheduleWeek}>Auto week</button>
+        </div>
+        <div className="overflow-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left font-medium p-1">Truck</th>
+                {DAYS.map((d) => (
+                  <th key={d} className="p-1 font-medium">
+                    <button
+                      className={`px-2 py-0.5 rounded ${activeDay === d ? "bg-slate-900 text-white" : "hover:bg-slate-100"}`}
+                      onClick={() => setSettings((s) => ({ ...s, activeDay: d }))}
                     >
-                      <div className="h-full w-px bg-slate-100" />
-                    </div>
-                  ))}
+                      {d}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {weekTrucks.map((t) => (
+                <tr key={t.id} className="border-t">
+                  <td className="p-1 whitespace-nowrap">{t.name}</td>
+                  {DAYS.map((d) => {
+                    const ld = weekLoad[`${t.id}|${d}`];
+                    const pct = ld ? Math.round((ld.minutes / dayWindow) * 100) : 0;
+                    const tone = pct > 100 ? "bg-rose-200" : pct >= 80 ? "bg-amber-200" : pct > 0 ? "bg-emerald-100" : "";
+                    return (
+                      <td key={d} className="p-0.5">
+                        <button
+                          className={`w-full rounded px-1 py-1 text-center ${tone} ${activeDay === d ? "ring-1 ring-slate-400" : ""}`}
+                          onClick={() => setSettings((s) => ({ ...s, activeDay: d }))}
+                          title={ld ? `${ld.count} jobs • ${ld.minutes} min booked` : "Free"}
+                        >
+                          {ld ? `${pct}% • ${ld.count}` : "—"}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="border-t">
+                <td className="p-1 text-slate-500">Backlog</td>
+                {DAYS.map((d) => {
+                  const n = backlogFor(d).length;
+                  return (
+                    <td key={d} className={`p-1 text-center ${n ? "text-rose-600 font-medium" : "text-slate-400"}`}>
+                      {n ? `${n} unscheduled` : "—"}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
 
-                  {/* Scheduled jobs as segmented blocks */}
-                  {rows.map((s) => {
-                    const j = jobById[s.jobId];
-                    if (!j) return null;
-                    const total = Math.max(1, jobDuration(j));
-                    const leftPct = ((s.startMin - startMin) / (endMin - startMin)) * 100;
-                    const widthPct = ((s.endMin - s.startMin) / (endMin - startMin)) * 100;
-                    const clientName = j.clientId ? (clientById[j.clientId]?.name || "Client") : "Client";
-                    const segs = segmentsFor(j);
+      {/* Fleet dashboard */}
+      <KpiDashboard kpis={kpis} scope={kpiScope} label={kpiScope === "day" ? activeDay : `Week of ${weekOf.slice(5)}`} onScope={setKpiScope} onExport={exportKpis} hidden={!!adminOnly} />
+
+      {/* Conflicts */}
+      <div className={`mt-4 p-3 rounded-lg border bg-white${adminOnly}`}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Conflicts</div>
+          <div className="ml-2 text-xs text-slate-500">
+            {issues.length === 0
+              ? "none"
+              : `${issues.filter((i) => i.severity === "error").length} errors, ${issues.filter((i) => i.severity === "warning").length} warnings`}
+          </div>
+        </div>
+        {issues.length > 0 && (
+          <div className="space-y-1 max-h-48 overflow-auto pr-1">
+            {issues.map((i) => (
+              <div key={i.id} className="flex items-center gap-2 text-sm">
+                <span className={`inline-block w-2 h-2 rounded-full ${i.severity === "error" ? "bg-rose-500" : "bg-amber-400"}`} />
+                <span className="text-xs text-slate-500 w-28 shrink-0">
+                  {i.day} • {ISSUE_LABELS[i.kind]}
+                </span>
+                <button className="text-left truncate hover:underline" onClick={() => focusIssue(i)} title="Show on timeline">
+                  {truckById[i.truckId]?.name || "Truck"}: {i.message}
+                </button>
+                {i.fix && (
+                  <button className="ml-auto shrink-0 px-2 py-0.5 rounded border text-xs" onClick={() => applyFix(i)}>
+                    {i.fix.label}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Delays */}
+      <fieldset className={`mt-4 p-3 rounded-lg border bg-white min-w-0${adminOnly}`} disabled={!can("scheduled")}>
+        <div className="flex items-center mb-2">
+          <div className="font-medium">Delays — {activeDay}</div>
+          <div className="ml-2 text-xs text-slate-500">
+            {replan.delayed.length + replan.observed.length + replan.late.length === 0
+              ? "all on time"
+              : `${replan.delayed.length} delayed, ${replan.late.length} running late`}
+          </div>
+        </div>
+        <div className="space-y-1 max-h-56 overflow-auto pr-1 text-sm">
+          {replan.observed.map(({ row, delay }) => (
+            <div key={row.id + ":seen"} className="flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full bg-sky-500" />
+              <button className="text-left truncate hover:underline" onClick={() => setFocusRowIds([row.id])} title="Show on timeline">
+                {truckById[row.truckId]?.name || "Truck"}: {jobById[row.jobId]?.title || "Job"} {delay.kind === "actual" ? "ran" : "is running"} {delay.minutes} min over
+                {row.delay ? ` (${row.delay.minutes} recorded)` : ""}
+              </button>
+              <button className="ml-auto shrink-0 px-2 py-0.5 rounded border text-xs" onClick={() => delayRow(row.id, delay)}>
+                Record {delay.minutes} min
+              </button>
+            </div>
+          ))}
+          {replan.delayed.map((row) => (
+            <div key={row.id + ":delay"} className="flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full bg-rose-400" />
+              <button className="text-left truncate hover:underline" onClick={() => setFocusRowIds([row.id])} title="Show on timeline">
+                {truckById[row.truckId]?.name || "Truck"}: {jobById[row.jobId]?.title || "Job"} {row.delay!.kind === "actual" ? "overran" : "expected to overrun"} by{" "}
+                {row.delay!.minutes} min{row.delay!.reason ? ` • ${row.delay!.reason}` : ""}
+              </button>
+              <button className="ml-auto shrink-0 px-2 py-0.5 rounded border text-xs" onClick={() => askDelay(row)}>
+                Change
+              </button>
+              <button className="shrink-0 px-2 py-0.5 rounded border text-xs" onClick={() => delayRow(row.id, null)} title="Later jobs keep their new times">
+                Clear
+              </button>
+            </div>
+          ))}
+          {replan.late.map((l) => {
+            const move = replan.moves.find((m) => m.rowId === l.rowId);
+            const row = scheduled.find((r) => r.id === l.rowId)!;
+            return (
+              <div key={l.rowId + ":late"} className="flex items-center gap-2">
+                <span className="inline-block w-2 h-2 rounded-full bg-amber-400" />
+                <button className="text-left truncate hover:underline" onClick={() => setFocusRowIds([l.rowId])} title="Show on timeline">
+                  {truckById[l.truckId]?.name || "Truck"}: {jobById[row.jobId]?.title || "Job"} {l.message}
+                </button>
+                {move ? (
+                  <button className="ml-auto shrink-0 px-2 py-0.5 rounded border text-xs" onClick={() => applyMove(move)} title="Earliest slot on a truck with spare time">
+                    {move.label}
+                  </button>
+                ) : (
+                  <span className="ml-auto shrink-0 text-xs text-slate-500">{row.runId ? "in a run" : "no truck has room"}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-2 text-xs text-slate-500">
+          Use “late” on a job to record a delay: later jobs on that truck move back, keeping the buffer and the time grid.
+        </div>
+      </fieldset>
+
+      {/* Schedule */}
+      <div className="mt-4 p-3 rounded-lg border bg-white">
+        <div className="flex items-center gap-2 mb-2">
+          <div className="font-medium">Schedule — {activeDay}</div>
+          <div className="ml-auto flex gap-2">
+            <button
+              className="px-2 py-1 rounded border text-sm"
+              onClick={() => setPrinting({ days: [activeDay], truckIds: dayTrucks.map((t) => t.id) })}
+              title="One run sheet per truck with jobs today"
+            >
+              Print all trucks
+            </button>
+            <button
+              className="px-2 py-1 rounded border text-sm"
+              onClick={() => setPrinting({ days: [...DAYS], truckIds: weekTrucks.map((t) => t.id) })}
+              title="Run sheets for every truck-day of the week"
+            >
+              Print week
+            </button>
+          </div>
+        </div>
+        {dropError && (
+          <div className="mb-2 px-2 py-1 rounded border border-rose-300 bg-rose-50 text-sm text-rose-700 flex items-center">
+            <span>{dropError}</span>
+            <button className="ml-auto px-2 text-xs" onClick={() => setDropError(null)}>Dismiss</button>
+          </div>
+        )}
+
+        {backlogFor(activeDay).length > 0 && (
+          <div className="mb-2 p-2 rounded border bg-slate-50">
+            <div className="text-xs font-medium mb-1">Backlog for {activeDay}</div>
+            <div className="flex flex-wrap gap-2">
+              {backlogFor(activeDay).map((j) => (
+                <button
+                  key={j.id}
+                  className="px-2 py-1 rounded border bg-white text-xs hover:bg-slate-100"
+                  onClick={() => saveJobToSchedule(j.id)}
+                  title="Place at the earliest free slot"
+                >
+                  {j.type}: {(j.clientId && clientById[j.clientId]?.name) || j.title}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Hour ruler with labels */}
+        <div className="relative h-8 border rounded mb-2 overflow-hidden bg-white">
+          {marks.map((mk) => (
+            <div key={mk.m} className="absolute top-0 bottom-0" style={{ left: `${((mk.m - startMin) / (endMin - startMin)) * 100}%` }}>
+              <div className="h-full w-px bg-slate-200" />
+              <div className="absolute -translate-x-1/2 text-[10px] top-0">{mk.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Truck rows */}
+        <div className="space-y-3">
+          {dayTrucks.length === 0 && <div className="text-sm text-slate-500">You are not assigned to a truck on {activeDay}.</div>}
+          {dayTrucks.map((t) => {
+            const rows = displayed
+              .filter((s) =>
+                s.day === activeDay &&
+                s.truckId === t.id &&
+                s.startMin != null &&
+                s.endMin != null &&
+                (isBreak(s) || jobById[s.jobId]) // only breaks and rows with existing jobs
+              )
+              .sort((a, b) => a.startMin - b.startMin);
+
+            const unscheduled = scheduled
+              .filter((s) =>
+                s.day === activeDay && (!s.truckId || s.startMin == null || s.endMin == null)
+              )
+              .filter((s) => jobById[s.jobId]);
+
+            const driver = truckDriver(t.id, activeDay);
+            const items = rows.filter((r) => !isBreak(r)).map((r) => ({ job: jobOfRow(r)!, start: r.startMin, end: r.endMin }));
+            const usage = driverLoad(items.map((x) => x.job));
+            const driverIssue = driverProblem(driver, activeDay, items);
+
+            return (
+              <div key={t.id} className="border rounded">
+                <div className="px-2 py-1 bg-slate-50 border-b flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <div className="font-medium">{t.name}</div>
+                    <button
+                      className="text-xs text-slate-500 hover:text-slate-900"
+                      onClick={() => setPrinting({ days: [activeDay], truckIds: [t.id] })}
+                      title="Print this truck's run sheet"
+                    >
+                      Print
+                    </button>
+                  </div>
+                  {(drivers.length > 0 || driver) && (
+                    <div className="flex items-center gap-2 text-xs">
+                      {driver && (
+                        <span className={driverIssue ? "text-rose-600" : "text-slate-500"} title={driverIssue || ""}>
+                          Drive {fmtHours(usage.driving)}/{fmtHours(driver.maxDrivingMin)} • Duty {fmtHours(usage.duty)}/{fmtHours(driver.maxDutyMin)}
+                        </span>
+                      )}
+                      <select
+                        className="border rounded px-1 py-0.5"
+                        value={driver?.id || ""}
+                        disabled={!can("assignments")}
+                        onChange={(e) => assignDriver(t.id, activeDay, e.target.value || null)}
+                      >
+                        <option value="">— Driver —</option>
+                        {drivers.map((d) => (
+                          <option key={d.id} value={d.id} disabled={d.daysOff.includes(activeDay)}>
+                            {d.name}{d.daysOff.includes(activeDay) ? " (off)" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                {/* Timeline for this truck */}
+                <div className="relative h-16 bg-white" data-truck-id={t.id}>
+                  {marks.map((mk) => (
+                    <div
+                      key={mk.m + ":grid"}
+                      className="absolute top-0 bottom-0"
+                      style={{ left: `${((mk.m - startMin) / (endMin - startMin)) * 100}%` }}
+                    >
+                      <div className="h-full w-px bg-slate-100" />
+                    </div>
+                  ))}
+
+                  {/* Unavailability windows */}
+                  {blockedSlots(t, activeDay).map((b) => {
+                    const from = clamp(b.start, startMin, endMin);
+                    const to = clamp(b.end, startMin, endMin);
+                    if (to <= from) return null;
+                    return (
+                      <div
+                        key={b.block.id}
+                        className="absolute top-0 bottom-0 bg-[repeating-linear-gradient(135deg,#fecdd3_0_4px,transparent_4px_10px)] border-x border-rose-300 text-[10px] text-rose-700 px-1 overflow-hidden"
+                        style={{
+                          left: `${((from - startMin) / (endMin - startMin)) * 100}%`,
+                          width: `${((to - from) / (endMin - startMin)) * 100}%`,
+                        }}
+                        title={`Unavailable ${unavailabilityLabel(b.block)}`}
+                      >
+                        <span className="bg-white/80 rounded px-0.5">{b.block.reason || "Unavailable"}</span>
+                      </div>
+                    );
+                  })}
+
+                  {/* Time window of the job being dragged */}
+                  {drag && drag.truckId === t.id && (() => {
+                    const dj = drag.runId ? undefined : jobById[drag.orig.jobId];
+                    if (!dj || !hasWindow(dj)) return null;
+                    const w = jobWindow(dj);
+                    const from = clamp(w.from ?? startMin, startMin, endMin);
+                    const to = clamp(w.to ?? endMin, startMin, endMin);
+                    if (to <= from) return null;
+                    return (
+                      <div
+                        className={`absolute top-0 bottom-0 ${isHardWindow(dj) ? "bg-emerald-200/50" : "bg-emerald-100/50"} border-x border-emerald-400 pointer-events-none`}
+                        style={{
+                          left: `${((from - startMin) / (endMin - startMin)) * 100}%`,
+                          width: `${((to - from) / (endMin - startMin)) * 100}%`,
+                        }}
+                      />
+                    );
+                  })()}
+
+                  {/* Scheduled jobs as segmented blocks */}
+                  {rows.map((s) => {
+                    if (isBreak(s)) {
+                      const dragging = drag?.rowId === s.id;
+                      const rule = s.ruleId ? breakRules.find((r) => r.id === s.ruleId) : undefined;
+                      const ring = dragging
+                        ? dragProblem ? "border-rose-500 ring-2 ring-rose-300 z-10" : "border-sky-500 ring-2 ring-sky-300 z-10"
+                        : focusRowIds.includes(s.id) ? "border-violet-500 ring-4 ring-violet-300 z-10"
+                        : "border-slate-300";
+                      return (
+                        <div
+                          key={s.id}
+                          id={`row-${s.id}`}
+                          className={`absolute top-1 bottom-1 rounded border ${ring} bg-[repeating-linear-gradient(45deg,#f1f5f9_0_6px,#e2e8f0_6px_12px)] overflow-hidden select-none touch-none ${dragging ? "cursor-grabbing pointer-events-none" : "cursor-grab"}`}
+                          style={{ left: `${((s.startMin - startMin) / (endMin - startMin)) * 100}%`, width: `${((s.endMin - s.startMin) / (endMin - startMin)) * 100}%`, minWidth: 28 }}
+                          title={
+                            dragging && dragProblem
+                              ? `Cannot drop here: ${dragProblem}`
+                              : `${rule?.label || "Break"} • ${toHHMM(s.startMin)}–${toHHMM(s.endMin)}${s.pinned ? " • pinned" : ""}`
+                          }
+                          onPointerDown={(e) => beginDrag(e, s, "move")}
+                        >
+                          <div className="px-1 text-[11px] font-medium text-slate-600 flex items-center gap-1">
+                            <span className="truncate">{rule?.label || "Break"}</span>
+                            <button
+                              className="ml-auto text-[10px] px-1 rounded text-slate-400 hover:text-slate-700"
+                              onPointerDown={(e) => e.stopPropagation()}
+                              disabled={!can("scheduled")}
+                              onClick={() => removeScheduledRow(s.id)}
+                              title="Remove break"
+                            >
+                              ×
+                            </button>
+                          </div>
+                          <div className="px-1 text-[10px] text-slate-600 truncate">
+                            {toHHMM(s.startMin)}–{toHHMM(s.endMin)}
+                            {s.pinned && " • pinned"}
+                            {dragging && dragProblem && <span className="text-rose-600"> • {dragProblem}</span>}
+                          </div>
+                          <div
+                            className="absolute top-0 bottom-0 right-0 w-1.5 cursor-ew-resize hover:bg-slate-400/40"
+                            onPointerDown={(e) => beginDrag(e, s, "resize")}
+                            title="Drag to stretch"
+                          />
+                        </div>
+                      );
+                    }
+                    if (s.runId) {
+                      // A run is drawn once, as one block with a part per stop
+                      const stops = rows.filter((r) => r.runId === s.runId);
+                      if (stops[0].id !== s.id) return null;
+                      const runStart = stops[0].startMin;
+                      const runEnd = stops[stops.length - 1].endMin;
+                      const runLen = Math.max(1, runEnd - runStart);
+                      const dragging = drag?.runId === s.runId;
+                      const pinned = stops.every((r) => r.pinned);
+                      const ring = dragging
+                        ? dragProblem ? "border-rose-500 ring-2 ring-rose-300 z-10" : "border-sky-500 ring-2 ring-sky-300 z-10"
+                        : stops.some((r) => focusRowIds.includes(r.id)) ? "border-violet-500 ring-4 ring-violet-300 z-10"
+                        : "border-slate-500";
+                      return (
+                        <div
+                          key={`run-${s.runId}`}
+                          className={`absolute top-1 bottom-1 rounded border-2 ${ring} bg-white/90 overflow-hidden select-none touch-none ${dragging ? "cursor-grabbing pointer-events-none" : "cursor-grab"}`}
+                          style={{
+                            left: `${((runStart - startMin) / (endMin - startMin)) * 100}%`,
+                            width: `${(runLen / (endMin - startMin)) * 100}%`,
+                            minWidth: 28 * stops.length,
+                          }}
+                          title={
+                            dragging && dragProblem
+                              ? `Cannot drop here: ${dragProblem}`
+                              : `Run • ${stops.length} stops • ${toHHMM(runStart)}–${toHHMM(runEnd)}`
+                          }
+                          onPointerDown={(e) => beginDrag(e, s, "move")}
+                        >
+                          {stops.map((st, i) => {
+                            const j = jobOfRow(st);
+                            if (!j) return null;
+                            const clientName = j.clientId ? (clientById[j.clientId]?.name || "Client") : "Client";
+                            const total = Math.max(1, jobDuration(j));
+                            const breach = windowBreach(j, st.startMin);
+                            const severity = issueSeverityByRow[st.id];
+                            return (
+                              <div
+                                key={st.id}
+                                id={`row-${st.id}`}
+                                className={`absolute top-0 bottom-0 ${i > 0 ? "border-l border-dashed border-slate-400" : ""} ${breach.total > 0 ? "bg-amber-50" : ""}`}
+                                style={{ left: `${((st.startMin - runStart) / runLen) * 100}%`, width: `${((st.endMin - st.startMin) / runLen) * 100}%` }}
+                                title={`${i + 1}. ${j.type} • ${clientName} • ${toHHMM(st.startMin)}–${toHHMM(st.endMin)}${breach.total > 0 ? ` • ${breachLabel(breach)}` : ""}${progressTitle(st)}`}
+                              >
+                                <div className="px-1 text-[11px] font-medium flex items-center gap-0.5">
+                                  {severity && (
+                                    <span
+                                      className={`shrink-0 inline-block w-2 h-2 rounded-full ${severity === "error" ? "bg-rose-500" : "bg-amber-400"}`}
+                                      title="See Conflicts"
+                                    />
+                                  )}
+                                  {lastUpdate(st, activeDate) && <span className={`shrink-0 inline-block w-2 h-2 rounded-sm ${STATUS_TONES[lastUpdate(st, activeDate)!.status]}`} />}
+                                  <span className="truncate">{i + 1}. {clientName}</span>
+                                  <span className="ml-auto flex shrink-0" onPointerDown={(e) => e.stopPropagation()}>
+                                    {i > 0 && (
+                                      <button className="text-[10px] px-0.5 text-slate-400 hover:text-slate-700" disabled={!can("scheduled")} onClick={() => moveRunStop(st.id, -1)} title="Earlier stop">
+                                        ◀
+                                      </button>
+                                    )}
+                                    {i < stops.length - 1 && (
+                                      <button className="text-[10px] px-0.5 text-slate-400 hover:text-slate-700" disabled={!can("scheduled")} onClick={() => moveRunStop(st.id, 1)} title="Later stop">
+                                        ▶
+                                      </button>
+                                    )}
+                                    <button className="text-[10px] px-0.5 text-slate-400 hover:text-slate-700" disabled={!can("scheduled")} onClick={() => leaveRunRow(st.id)} title="Take out of the run">
+                                      ×
+                                    </button>
+                                  </span>
+                                </div>
+                                <div className="h-[18px] w-full relative">
+                                  {(() => {
+                                    let acc = 0;
+                                    return segmentsFor(j).map((sg, k) => {
+                                      const w = (sg.minutes / total) * 100;
+                                      const l = (acc / total) * 100;
+                                      acc += sg.minutes;
+                                      if (w <= 0) return null;
+                                      return (
+                                        <div
+                                          key={k}
+                                          className={`absolute top-0 bottom-0 ${sg.color}`}
+                                          style={{ left: `${l}%`, width: `${w}%` }}
+                                          title={`${sg.label} • ${sg.minutes} min`}
+                                        />
+                                      );
+                                    });
+                                  })()}
+                                </div>
+                                <div className="px-1 text-[10px] text-slate-700 truncate">
+                                  {toHHMM(st.startMin)}–{toHHMM(st.endMin)}
+                                  {breach.total > 0 && <span className="text-amber-700 font-medium"> • {breachLabel(breach)}</span>}
+                                  {i === 0 && (
+                                    <span className="ml-1" onPointerDown={(e) => e.stopPropagation()}>
+                                      <button className="px-1 rounded text-slate-500 hover:text-slate-800" disabled={!can("scheduled")} onClick={() => bestRunOrder(s.runId!)} title="Reorder stops: fewest window misses, then shortest run">
+                                        order
+                                      </button>
+                                      <button
+                                        className={`px-1 rounded ${pinned ? "bg-slate-900 text-white" : "text-slate-500 hover:text-slate-800"}`}
+                                        disabled={!can("scheduled")}
+                                        onClick={() => pinRun(s.runId!, !pinned)}
+                                        title={pinned ? "Pinned: the optimizer keeps this run as it is" : "Pin so the optimizer keeps this run as it is"}
+                                      >
+                                        pin
+                                      </button>
+                                    </span>
+                                  )}
+                                  {dragging && dragProblem && i === 0 && <span className="text-rose-600"> • {dragProblem}</span>}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    }
+                    const j = jobById[s.jobId];
+                    if (!j) return null;
+                    const total = Math.max(1, jobDuration(j) + delayOf(s));
+                    const leftPct = ((s.startMin - startMin) / (endMin - startMin)) * 100;
+                    const widthPct = ((s.endMin - s.startMin) / (endMin - startMin)) * 100;
+                    const clientName = j.clientId ? (clientById[j.clientId]?.name || "Client") : "Client";
+                    const segs = segmentsFor(j);
+                    const dragging = drag?.rowId === s.id;
+                    const win = jobWindow(j);
+                    const breach = windowBreach(j, s.startMin);
+                    const ring = dragging
+                      ? dragProblem ? "border-rose-500 ring-2 ring-rose-300 z-10" : "border-sky-500 ring-2 ring-sky-300 z-10"
+                      : focusRowIds.includes(s.id) ? "border-violet-500 ring-4 ring-violet-300 z-10"
+                      : breach.total > 0 ? "border-amber-500 ring-1 ring-amber-300" : "border-slate-300";
+                    const severity = issueSeverityByRow[s.id];
 
                     return (
                       <div
                         key={s.id}
-                        className="absolute top-1 bottom-1 rounded border border-slate-300 bg-white/90 overflow-hidden"
+                        id={`row-${s.id}`}
+                        className={`absolute top-1 bottom-1 rounded border ${ring} bg-white/90 overflow-hidden select-none touch-none ${dragging ? "cursor-grabbing pointer-events-none" : "cursor-grab"}`}
                         style={{ left: `${leftPct}%`, width: `${widthPct}%`, minWidth: 28 }}
-                        title={`${j.type} • ${clientName} • ${toHHMM(s.startMin)}–${toHHMM(s.endMin)}`}
+                        title={
+                          dragging && dragProblem
+                            ? `Cannot drop here: ${dragProblem}`
+                            : `${j.type} • ${clientName} • ${toHHMM(s.startMin)}–${toHHMM(s.endMin)}${j.size && sizeLabel(j.size) ? ` • ${sizeLabel(j.size)}` : ""}${progressTitle(s)}`
+                        }
+                        onPointerDown={(e) => beginDrag(e, s, "move")}
                       >
-                        <div className="px-1 text-[11px] font-medium truncate">{j.type}: {clientName}</div>
+                        <div className="px-1 text-[11px] font-medium flex items-center gap-1">
+                          {severity && (
+                            <span
+                              className={`shrink-0 inline-block w-2 h-2 rounded-full ${severity === "error" ? "bg-rose-500" : "bg-amber-400"}`}
+                              title="See Conflicts"
+                            />
+                          )}
+                          {lastUpdate(s, activeDate) && <span className={`shrink-0 inline-block w-2 h-2 rounded-sm ${STATUS_TONES[lastUpdate(s, activeDate)!.status]}`} />}
+                          <span className="truncate">{j.type}: {clientName}</span>
+                          <button
+                            className="ml-auto text-[10px] px-1 rounded text-slate-400 hover:text-slate-700"
+                            onPointerDown={(e) => e.stopPropagation()}
+                            disabled={!can("scheduled")}
+                            onClick={() => joinPrevious(s.id)}
+                            title="Chain onto the previous job as one run (single depot load and return)"
+                          >
+                            +run
+                          </button>
+                          <button
+                            className={`text-[10px] px-1 rounded ${s.pinned ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-700"}`}
+                            onPointerDown={(e) => e.stopPropagation()}
+                            disabled={!can("scheduled")}
+                            onClick={() => updateScheduledRow(s.id, { pinned: !s.pinned })}
+                            title={s.pinned ? "Pinned: the optimizer keeps this block in place" : "Pin so the optimizer keeps this block in place"}
+                          >
+                            pin
+                          </button>
+                          <button
+                            className={`text-[10px] px-1 rounded ${s.delay ? "bg-rose-600 text-white" : "text-slate-400 hover:text-slate-700"}`}
+                            onPointerDown={(e) => e.stopPropagation()}
+                            disabled={!can("scheduled")}
+                            onClick={() => askDelay(s)}
+                            title={s.delay ? `Running ${s.delay.minutes} min over; click to change` : "Record a delay; later jobs on this truck move back"}
+                          >
+                            late
+                          </button>
+                        </div>
                         <div className="h-[18px] w-full relative">
                           {(() => {
                             let acc = 0;
@@ -853,11 +3216,51 @@ const segmentsFor = (j: Job): Segment[] => {
                               );
                             });
                           })()}
+                          {s.delay && (
+                            <div
+                              className="absolute top-0 bottom-0 right-0 bg-[repeating-linear-gradient(135deg,#fda4af_0_4px,#fff1f2_4px_8px)] text-[10px] text-rose-800 flex items-center justify-center"
+                              style={{ width: `${(s.delay.minutes / total) * 100}%`, minWidth: 6 }}
+                              title={`${s.delay.kind === "actual" ? "Overran" : "Expected to overrun"} by ${s.delay.minutes} min${s.delay.reason ? ` • ${s.delay.reason}` : ""}`}
+                            >
+                              <span className="px-1 truncate">+{s.delay.minutes}</span>
+                            </div>
+                          )}
                         </div>
-                        <div className="px-1 text-[10px] text-slate-700">{toHHMM(s.startMin)}–{toHHMM(s.endMin)}</div>
+                        <div className="px-1 text-[10px] text-slate-700 truncate">
+                          {toHHMM(s.startMin)}–{toHHMM(s.endMin)}
+                          {hasWindow(j) && (
+                            <span className="text-slate-500">
+                              {" "}• win {win.from != null ? toHHMM(win.from) : "…"}–{win.to != null ? toHHMM(win.to) : "…"}
+                            </span>
+                          )}
+                          {breach.total > 0 && <span className="text-amber-700 font-medium"> • {breachLabel(breach)}</span>}
+                          {dragging && dragProblem && <span className="text-rose-600"> • {dragProblem}</span>}
+                        </div>
+                        {/* Right edge: stretch */}
+                        <div
+                          className="absolute top-0 bottom-0 right-0 w-1.5 cursor-ew-resize hover:bg-slate-400/40"
+                          onPointerDown={(e) => beginDrag(e, s, "resize")}
+                          title="Drag to stretch"
+                        />
                       </div>
                     );
                   })}
+
+                  {/* What actually happened, under the plan */}
+                  {rows.map((s) => {
+                    const span = actualSpan(s, activeDate);
+                    if (!span) return null;
+                    const from = clamp(span.from, startMin, endMin);
+                    const to = clamp(Math.max(span.to, span.from + 1), startMin, endMin);
+                    if (to <= from) return null;
+                    return (
+                      <div
+                        key={s.id + ":actual"}
+                        className={`absolute bottom-0 h-1 rounded-full z-10 pointer-events-none ${STATUS_TONES[lastUpdate(s, activeDate)!.status]} ${span.open ? "opacity-60" : ""}`}
+                        style={{ left: `${((from - startMin) / (endMin - startMin)) * 100}%`, width: `${((to - from) / (endMin - startMin)) * 100}%` }}
+                      />
+                    );
+                  })}
                 </div>
 
                 {/* Unscheduled chips */}
@@ -932,3 +3335,1167 @@ function QuickPlace({
     </div>
   );
 }
+
+/** =======================================
+ * ImportPanel component
+ * Reads a CSV / Excel file, maps its columns, previews every line with its
+ * problems and only then imports the valid ones.
+ * ======================================= */
+function ImportPanel({
+  clients, trucks, fallbackDay, travel, onImportJobs, onImportClients,
+}: {
+  clients: Client[];
+  trucks: Truck[];
+  fallbackDay: DayKey;
+  travel: TravelCtx;
+  onImportJobs: (jobs: Job[], newClients: Client[]) => void;
+  onImportClients: (clients: Client[]) => void;
+}) {
+  const [target, setTarget] = useState<ImportTarget>("jobs");
+  const [file, setFile] = useState<{ name: string; table: Table } | null>(null);
+  const [mapping, setMapping] = useState<Mapping>({});
+  const [createClients, setCreateClients] = useState(true);
+  const [error, setError] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const fields = target === "jobs" ? JOB_FIELDS : CLIENT_FIELDS;
+  const header = file?.table[0] || [];
+
+  const result = useMemo(() => {
+    if (!file) return null;
+    if (target === "jobs") return importJobs(file.table, mapping, { clients, trucks, fallbackDay, createClients, travel });
+    return { lines: importClients(file.table, mapping, clients), newClients: [] as Client[] };
+  }, [file, target, mapping, clients, trucks, fallbackDay, createClients, travel]);
+  const lines: ImportLine<Job | Client>[] = result?.lines || [];
+  const valid = lines.filter((l) => l.value);
+  const missing = fields.filter((f) => f.required && mapping[f.key] == null);
+
+  const pick = async (f?: File) => {
+    setError("");
+    if (!f) return;
+    try {
+      const table = await readTable(f);
+      if (table.length < 2) throw new Error("the file has no rows below the header");
+      setFile({ name: f.name, table });
+      setMapping(guessMapping(fields, table[0]));
+    } catch (e: any) {
+      setFile(null);
+      setError(`Could not read ${f.name}: ${e?.message || e}`);
+    }
+  };
+  const changeTarget = (t: ImportTarget) => {
+    setTarget(t);
+    if (file) setMapping(guessMapping(t === "jobs" ? JOB_FIELDS : CLIENT_FIELDS, file.table[0]));
+  };
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    if (fileRef.current) fileRef.current.value = "";
+  };
+  const commit = () => {
+    if (!result) return;
+    if (target === "jobs") onImportJobs(valid.map((l) => l.value as Job), result.newClients);
+    else onImportClients(valid.map((l) => l.value as Client));
+    reset();
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-2 items-center mb-2">
+        <select className="border rounded px-2 py-1" value={target} onChange={(e) => changeTarget(e.target.value as ImportTarget)}>
+          <option value="jobs">Jobs</option>
+          <option value="clients">Clients</option>
+        </select>
+        <input ref={fileRef} type="file" accept=".csv,.txt,.xlsx,.xls" onChange={(e) => pick(e.target.files?.[0])} />
+        {target === "jobs" && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={createClients} onChange={(e) => setCreateClients(e.target.checked)} />
+            Create missing clients
+          </label>
+        )}
+      </div>
+      {error && <div className="text-xs text-rose-600 mb-2">{error}</div>}
+
+      {file && (
+        <>
+          <div className="text-xs text-slate-500 mb-1">Columns in {file.name}</div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-3 gap-y-1 mb-3">
+            {fields.map((f) => (
+              <label key={f.key} className="flex items-center gap-1">
+                <span className={`w-28 text-xs ${f.required ? "font-medium" : "text-slate-600"}`}>{f.label}</span>
+                <select
+                  className="border rounded px-1 py-0.5 text-xs flex-1 min-w-0"
+                  value={mapping[f.key] ?? ""}
+                  onChange={(e) => setMapping((m) => ({ ...m, [f.key]: e.target.value === "" ? null : Number(e.target.value) }))}
+                >
+                  <option value="">—</option>
+                  {header.map((h, i) => (
+                    <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="max-h-64 overflow-auto border rounded mb-2">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="text-left px-2 py-1 w-12">Line</th>
+                  <th className="text-left px-2 py-1">{target === "jobs" ? "Job" : "Client"}</th>
+                  <th className="text-left px-2 py-1">Check</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((l) => (
+                  <tr key={l.line} className={`border-t ${l.value ? "" : "bg-rose-50"}`}>
+                    <td className="px-2 py-1 text-slate-500">{l.line}</td>
+                    <td className="px-2 py-1">
+                      {l.value
+                        ? "type" in l.value
+                          ? `${l.value.type} · ${l.value.title} · ${(l.value.days || []).join(" ")}`
+                          : l.value.name
+                        : file.table[l.line - 1].filter(Boolean).slice(0, 3).join(" · ")}
+                    </td>
+                    <td className={`px-2 py-1 ${l.value ? "text-slate-500" : "text-rose-700"}`}>
+                      {l.errors.length ? l.errors.join("; ") : l.note || "ok"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              className="px-3 py-1 rounded bg-slate-900 text-white disabled:opacity-50"
+              disabled={!valid.length || missing.length > 0}
+              onClick={commit}
+            >
+              Import {valid.length} valid row{valid.length === 1 ? "" : "s"}
+            </button>
+            <button className="px-3 py-1 rounded border" onClick={reset}>
+              Cancel
+            </button>
+            <span className="text-xs text-slate-500">
+              {missing.length
+                ? `Map a column to ${missing.map((f) => f.label).join(", ")}`
+                : lines.length > valid.length
+                  ? `${lines.length - valid.length} line(s) with problems will be skipped`
+                  : ""}
+            </span>
+          </div>
+        </>
+      )}
+      {!file && !error && (
+        <div className="text-xs text-slate-500">
+          CSV or Excel, first row as header. Jobs: type, client, days, durations, window, size, truck. Clients: name, address, lat/lng, defaults.
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** =======================================
+ * RunSheets component
+ * Printed only (hidden on screen): one page per truck-day with the times of
+ * each phase, and room for the driver to fill in on the road.
+ * ======================================= */
+type RunSheetLine = { row: ScheduledRow; job?: Job; label: string; stop?: number };
+type RunSheet = { truck: Truck; day: DayKey; date: string; driver?: Driver; lines: RunSheetLine[] };
+
+function RunSheets({ sheets, clientById }: { sheets: RunSheet[]; clientById: Record<ID, Client> }) {
+  const printedAt = new Date().toLocaleString();
+  const cell = "border border-slate-400 px-1.5 py-1 align-top";
+  return (
+    <div className="hidden print:block text-[11px] text-black">
+      {sheets.length === 0 && <div className="p-4">Nothing scheduled to print.</div>}
+      {sheets.map((sh) => {
+        const jobs = sh.lines.filter((l) => l.job);
+        return (
+          <section key={`${sh.truck.id}:${sh.day}`} className="break-after-page last:break-after-auto">
+            <div className="flex items-end justify-between border-b-2 border-black pb-1 mb-2">
+              <div>
+                <div className="text-lg font-bold">Run sheet — {sh.truck.name}</div>
+                <div>
+                  {sh.day} {sh.date}
+                  {sh.driver ? ` · Driver: ${sh.driver.name} (${sh.driver.shiftStart}–${sh.driver.shiftEnd})` : " · Driver: ____________"}
+                </div>
+              </div>
+              <div className="text-right">
+                <div>
+                  {jobs.length} job{jobs.length === 1 ? "" : "s"}
+                  {sh.lines.length > 0 && ` · ${toHHMM(sh.lines[0].row.startMin)}–${toHHMM(Math.max(...sh.lines.map((l) => l.row.endMin)))}`}
+                </div>
+                <div className="text-[9px]">Printed {printedAt}</div>
+              </div>
+            </div>
+
+            <table className="w-full border-collapse mb-3">
+              <thead>
+                <tr className="bg-slate-100">
+                  <th className={cell}>#</th>
+                  <th className={cell}>Start–End</th>
+                  <th className={cell}>Type</th>
+                  <th className={cell}>Client / site</th>
+                  {PHASES.map((p) => (
+                    <th key={p} className={cell}>{p}</th>
+                  ))}
+                  <th className={cell}>Window</th>
+                  <th className={cell}>Notes</th>
+                  <th className={`${cell} w-14`}>Arrived</th>
+                  <th className={`${cell} w-14`}>Left</th>
+                  <th className={`${cell} w-28`}>Signature</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sh.lines.map((l) => {
+                  const span = `${toHHMM(l.row.startMin)}–${toHHMM(l.row.endMin)}`;
+                  if (!l.job) {
+                    return (
+                      <tr key={l.row.id} className="bg-slate-50">
+                        <td className={cell} />
+                        <td className={cell}>{span}</td>
+                        <td className={cell} colSpan={PHASES.length + 7}>{l.label}</td>
+                      </tr>
+                    );
+                  }
+                  const j = l.job;
+                  const c = j.clientId ? clientById[j.clientId] : undefined;
+                  const phase = phaseTimes(j, l.row.startMin);
+                  const w = jobWindow(j);
+                  return (
+                    <tr key={l.row.id}>
+                      <td className={cell}>
+                        {jobs.indexOf(l) + 1}
+                        {l.stop ? <div className="text-[9px]">stop {l.stop}</div> : null}
+                      </td>
+                      <td className={`${cell} whitespace-nowrap`}>{span}</td>
+                      <td className={cell}>{j.type}</td>
+                      <td className={cell}>
+                        <div className="font-medium">{c?.name || j.title}</div>
+                        {c && j.title && <div>{j.title}</div>}
+                        {c?.address && <div className="text-[9px]">{c.address}</div>}
+                        {sizeLabel(j.size) && <div className="text-[9px]">{sizeLabel(j.size)}</div>}
+                      </td>
+                      {PHASES.map((p) => (
+                        <td key={p} className={`${cell} whitespace-nowrap`}>{phase[p] || "—"}</td>
+                      ))}
+                      <td className={`${cell} whitespace-nowrap`}>
+                        {hasWindow(j) ? `${w.from != null ? toHHMM(w.from) : "…"}–${w.to != null ? toHHMM(w.to) : "…"}${isHardWindow(j) ? " (hard)" : ""}` : ""}
+                      </td>
+                      <td className={cell}>{j.notes || c?.notes || ""}</td>
+                      <td className={cell} />
+                      <td className={cell} />
+                      <td className={cell} />
+                    </tr>
+                  );
+                })}
+                {sh.lines.length === 0 && (
+                  <tr>
+                    <td className={cell} colSpan={PHASES.length + 9}>Nothing scheduled.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            <div className="grid grid-cols-2 gap-x-8 gap-y-4 mt-4">
+              <div>Odometer start: ______________ km</div>
+              <div>Odometer end: ______________ km</div>
+              <div>Departed depot: ________</div>
+              <div>Back at depot: ________</div>
+              <div>Driver signature: ______________________</div>
+              <div>Checked by: ______________________</div>
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+/** =======================================
+ * DriverView component
+ * One truck's jobs for one day, in order, sized for a phone. Each tap
+ * records the real time against the row; the dispatcher's timeline shows
+ * it next to the plan.
+ * ======================================= */
+function DriverView({
+  trucks, scheduled, jobById, clientById, weekOf, activeDay, account, driverOf, mayReport, onReport,
+}: {
+  trucks: Truck[];
+  scheduled: ScheduledRow[];
+  jobById: Record<ID, Job>;
+  clientById: Record<ID, Client>;
+  weekOf: string;
+  activeDay: DayKey;
+  account: Account | null;
+  driverOf: (truckId: ID, day: DayKey) => string | undefined;
+  mayReport: (r: ScheduledRow) => boolean;
+  onReport: (rowId: ID, status: JobStatus, reason?: string) => void;
+}) {
+  const today = DAYS.find((d) => dateOfDay(weekOf, d) === todayISO());
+  const [day, setDay] = useState<DayKey>(today ?? activeDay);
+  const [truckId, setTruckId] = useState<ID>(trucks[0]?.id || "");
+  const truck = trucks.find((t) => t.id === truckId) ?? trucks[0];
+  const rows = truck
+    ? scheduled.filter((r) => r.truckId === truck.id && r.day === day && r.startMin != null && !isBreak(r)).sort((a, b) => a.startMin - b.startMin)
+    : [];
+  const clock = (d?: Date) => (d ? d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "");
+  const fail = (r: ScheduledRow) => {
+    const reason = prompt("Why did the job fail?")?.trim();
+    if (reason) onReport(r.id, "failed", reason);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900">
+      <div className="sticky top-0 z-10 bg-white border-b p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <h1 className="text-lg font-semibold flex-1">Today's run</h1>
+          <span className="text-xs text-slate-500">{account ? account.name : "Not signed in"}</span>
+          <a className="px-2 py-1 rounded border text-sm" href="#/">
+            Full plan
+          </a>
+        </div>
+        <div className="flex gap-2">
+          <select className="flex-1 border rounded px-2 py-2 text-base" value={truck?.id || ""} onChange={(e) => setTruckId(e.target.value)}>
+            {trucks.length === 0 && <option value="">No truck</option>}
+            {trucks.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <select className="border rounded px-2 py-2 text-base" value={day} onChange={(e) => setDay(e.target.value as DayKey)}>
+            {DAYS.map((d) => (
+              <option key={d} value={d}>
+                {d} {dateOfDay(weekOf, d).slice(5)}{d === today ? " (today)" : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+        {truck && driverOf(truck.id, day) && <div className="text-xs text-slate-500">Driver: {driverOf(truck.id, day)}</div>}
+      </div>
+
+      <div className="p-3 space-y-3 max-w-xl mx-auto">
+        {!trucks.length && <div className="text-sm text-slate-500">No truck for you this week. Sign in on the full plan, or ask the dispatcher to assign you.</div>}
+        {truck && !rows.length && <div className="text-sm text-slate-500">Nothing planned for {truck.name} on {day}.</div>}
+        {rows.map((r, i) => {
+          const j = jobById[r.jobId];
+          if (!j) return null;
+          const client = j.clientId ? clientById[j.clientId] : undefined;
+          const date = dateOfDay(weekOf, day);
+          const last = lastUpdate(r, date);
+          const next = nextStatus(r, date);
+          const times = actualTimes(r, date);
+          const editable = mayReport(r);
+          return (
+            <div key={r.id} className="rounded-lg border bg-white shadow-sm overflow-hidden">
+              <div className="p-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-slate-400">{i + 1}.</span>
+                  <span className="font-medium flex-1">{j.type}: {client?.name || j.title || "Job"}</span>
+                  {last && <span className={`text-xs text-white rounded px-1.5 py-0.5 ${STATUS_TONES[last.status]}`}>{statusLabel(last.status, j.type)}</span>}
+                </div>
+                {client?.address && <div className="text-sm text-slate-600">{client.address}</div>}
+                <div className="text-sm text-slate-600">
+                  Planned {toHHMM(r.startMin)}–{toHHMM(r.endMin)} • on site {toHHMM(r.startMin + onsiteOffset(j))}
+                </div>
+                {r.delay && <div className="text-sm text-rose-700">Running {r.delay.minutes} min over the plan{r.delay.reason ? `: ${r.delay.reason}` : ""}</div>}
+                {j.notes && <div className="text-xs text-slate-500 mt-1">{j.notes}</div>}
+                {last && (
+                  <div className="text-xs text-slate-500 mt-1">
+                    {JOB_STATUSES.filter((st) => times[st]).map((st) => `${statusLabel(st, j.type)} ${clock(times[st])}`).join(" • ")}
+                    {last.reason && ` • ${last.reason}`}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-5 border-t text-sm">
+                {JOB_STATUSES.map((st) => (
+                  <button
+                    key={st}
+                    className={`py-3 px-1 border-l first:border-l-0 disabled:opacity-40 ${
+                      last?.status === st ? `${STATUS_TONES[st]} text-white` : st === next ? "bg-slate-900 text-white" : "bg-white"
+                    }`}
+                    disabled={!editable}
+                    onClick={() => (st === "failed" ? fail(r) : onReport(r.id, st))}
+                  >
+                    {statusLabel(st, j.type)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** =======================================
+ * KpiDashboard component
+ * How the fleet is used over the day or the week: one bar per truck for
+ * utilisation, one for how its time splits, and the job mix.
+ * ======================================= */
+function KpiDashboard({
+  kpis, scope, label, onScope, onExport, hidden,
+}: {
+  kpis: FleetKpi;
+  scope: "day" | "week";
+  label: string;
+  onScope: (s: "day" | "week") => void;
+  onExport: () => void;
+  hidden: boolean;
+}) {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  const jobsMax = Math.max(1, ...kpis.trucks.map((t) => t.deliveries + t.collections));
+  const tiles: [string, string, string?][] = [
+    ["Utilisation", pct(kpis.utilisation), "Busy time inside the working window"],
+    ["Unscheduled", String(kpis.unscheduled), `of ${kpis.requested} job-days requested`],
+    [
+      "On time",
+      kpis.onTimeRate == null ? "—" : pct(kpis.onTimeRate),
+      kpis.onTimeRate == null ? "No job has a time window yet" : `${kpis.onTime} of ${kpis.windowed} jobs with a window`,
+    ],
+    ["Idle", fmtHours(kpis.trucks.reduce((s, t) => s + t.idle, 0)), "Gaps between jobs beyond the buffer"],
+  ];
+
+  return (
+    <div className={`mt-4 p-3 rounded-lg border bg-white${hidden ? " hidden" : ""}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <div className="font-medium">Fleet — {label}</div>
+        <div className="ml-auto flex items-center gap-2 text-sm">
+          {(["day", "week"] as const).map((s) => (
+            <button key={s} className={`px-2 py-1 rounded border ${scope === s ? "bg-slate-900 text-white" : ""}`} onClick={() => onScope(s)}>
+              {s === "day" ? "Day" : "Week"}
+            </button>
+          ))}
+          <button className="px-2 py-1 rounded border" onClick={onExport} title="Per-truck figures and fleet totals as CSV">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+        {tiles.map(([name, value, hint]) => (
+          <div key={name} className="p-2 rounded border bg-slate-50" title={hint}>
+            <div className="text-xs text-slate-500">{name}</div>
+            <div className="text-lg font-semibold">{value}</div>
+            <div className="text-[11px] text-slate-500 truncate">{hint}</div>
+          </div>
+        ))}
+      </div>
+
+      {kpis.trucks.length === 0 ? (
+        <div className="text-sm text-slate-500">No trucks yet.</div>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="p-1 font-medium">Truck</th>
+                <th className="p-1 font-medium w-1/4">Utilisation</th>
+                <th className="p-1 font-medium w-1/3">Time</th>
+                <th className="p-1 font-medium">Jobs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {kpis.trucks.map((t) => {
+                const parts = [
+                  { label: "Driving", minutes: t.driving, color: "bg-blue-500" },
+                  { label: "Loading", minutes: t.loading, color: "bg-emerald-500" },
+                  { label: "Overrun", minutes: t.overrun, color: "bg-rose-400" },
+                  { label: "Breaks", minutes: t.breaks, color: "bg-slate-300" },
+                  { label: "Idle", minutes: t.idle, color: "bg-amber-200" },
+                ];
+                const spent = Math.max(1, parts.reduce((s, p) => s + p.minutes, 0));
+                return (
+                  <tr key={t.truckId} className="border-t">
+                    <td className="p-1 whitespace-nowrap">{t.name}</td>
+                    <td className="p-1">
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 h-3 rounded bg-slate-100 overflow-hidden">
+                          <div
+                            className={`h-full ${t.utilisation > 0.9 ? "bg-rose-500" : t.utilisation > 0.6 ? "bg-emerald-500" : "bg-sky-400"}`}
+                            style={{ width: `${Math.min(100, t.utilisation * 100)}%` }}
+                          />
+                        </div>
+                        <span className="w-9 text-right">{pct(t.utilisation)}</span>
+                      </div>
+                    </td>
+                    <td className="p-1">
+                      <div
+                        className="flex h-3 rounded overflow-hidden bg-slate-100"
+                        title={`${fmtHours(t.busy)} busy of ${fmtHours(t.available)} • ${t.gaps} idle gap${t.gaps === 1 ? "" : "s"}${t.gaps ? `, longest ${t.longestGap} min` : ""}`}
+                      >
+                        {parts.map((p) =>
+                          p.minutes > 0 ? (
+                            <div key={p.label} className={p.color} style={{ width: `${(p.minutes / spent) * 100}%` }} title={`${p.label} • ${fmtHours(p.minutes)}`} />
+                          ) : null
+                        )}
+                      </div>
+                    </td>
+                    <td className="p-1">
+                      <div className="flex items-center gap-2" title={`${t.deliveries} deliveries, ${t.collections} collections`}>
+                        <div className="flex h-3 w-24 rounded overflow-hidden bg-slate-100">
+                          <div className="bg-sky-500" style={{ width: `${(t.deliveries / jobsMax) * 100}%` }} />
+                          <div className="bg-rose-500" style={{ width: `${(t.collections / jobsMax) * 100}%` }} />
+                        </div>
+                        <span className="whitespace-nowrap">{t.deliveries} D / {t.collections} C</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="mt-2 flex flex-wrap gap-3 text-[11px] text-slate-500">
+            {[
+              ["bg-blue-500", "Driving"],
+              ["bg-emerald-500", "Loading / offloading"],
+              ["bg-rose-400", "Overrun"],
+              ["bg-slate-300", "Breaks"],
+              ["bg-amber-200", "Idle"],
+              ["bg-sky-500", "Deliveries"],
+              ["bg-rose-500", "Collections"],
+            ].map(([color, name]) => (
+              <span key={name} className="flex items-center gap-1">
+                <span className={`inline-block w-2.5 h-2.5 rounded-sm ${color}`} />
+                {name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** =======================================
+ * AccountPanel component
+ * Sign in and out. A Supabase or REST store has its own accounts; while
+ * the plan stays in this browser, accounts are a local stand-in: pick one
+ * to try the app in that role.
+ * ======================================= */
+function AccountPanel({
+  account, role, local, drivers, onSignIn, onSignOut,
+}: {
+  account: Account | null;
+  role: Role;
+  local: LocalAuth | null;
+  drivers: Driver[];
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onSignOut: () => Promise<void>;
+}) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [draft, setDraft] = useState<{ email: string; name: string; role: Role; driverId: ID | null }>({ email: "", name: "", role: "planner", driverId: null });
+  const [accounts, setAccounts] = useState<Account[]>(() => local?.accounts() || []);
+  const [error, setError] = useState("");
+  const run = (p: Promise<unknown>) => {
+    setError("");
+    p.catch((e: any) => setError(String(e?.message || e)));
+  };
+  const addAccount = () => {
+    if (!local || !draft.email.trim()) return;
+    local.saveAccount({ ...draft, email: draft.email.trim(), name: draft.name.trim() || draft.email.trim(), driverId: draft.role === "driver" ? draft.driverId : null });
+    setAccounts(local.accounts());
+    setDraft({ ...draft, email: "", name: "" });
+  };
+
+  return (
+    <div className="p-3 space-y-3 text-sm">
+      <div>
+        {account ? (
+          <div className="flex items-center gap-2">
+            <div className="flex-1">
+              <div className="font-medium">{account.name}</div>
+              <div className="text-xs text-slate-500">{account.email}</div>
+            </div>
+            <button className="px-2 py-1 rounded border" onClick={() => run(onSignOut())}>
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <div className="text-slate-600">Not signed in.</div>
+        )}
+        <div className="text-xs text-slate-500 mt-1">{ROLE_LABELS[role]}: {ROLE_HINTS[role]}.</div>
+      </div>
+
+      {!account && !local && (
+        <div className="space-y-2 border-t pt-2">
+          <input className="w-full border rounded px-2 py-1" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          <input
+            className="w-full border rounded px-2 py-1"
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && run(onSignIn(email, password))}
+          />
+          <button className="px-2 py-1 rounded bg-slate-900 text-white" onClick={() => run(onSignIn(email, password))}>
+            Sign in
+          </button>
+        </div>
+      )}
+
+      {local && (
+        <div className="space-y-2 border-t pt-2">
+          <div className="text-xs text-slate-500">Local accounts, for trying roles in this browser. No password; not a protection.</div>
+          {accounts.map((a) => (
+            <div key={a.id} className="flex items-center gap-2">
+              <span className="flex-1 truncate">{a.name}</span>
+              <span className="text-xs text-slate-500">{ROLE_LABELS[a.role]}</span>
+              {account?.id !== a.id && (
+                <button className="px-2 py-0.5 rounded border text-xs" onClick={() => run(onSignIn(a.email, ""))}>
+                  Sign in
+                </button>
+              )}
+              <button
+                className="px-2 py-0.5 rounded border text-xs text-rose-600"
+                onClick={() => {
+                  local.removeAccount(a.id);
+                  setAccounts(local.accounts());
+                }}
+              >
+                Del
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <input className="border rounded px-2 py-1" placeholder="Email" value={draft.email} onChange={(e) => setDraft({ ...draft, email: e.target.value })} />
+            <input className="border rounded px-2 py-1" placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <select className="border rounded px-1 py-1" value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })}>
+              {ROLES.map((r) => (
+                <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+              ))}
+            </select>
+            {draft.role === "driver" ? (
+              <select className="border rounded px-1 py-1" value={draft.driverId || ""} onChange={(e) => setDraft({ ...draft, driverId: e.target.value || null })}>
+                <option value="">— Driver —</option>
+                {drivers.map((d) => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+            ) : (
+              <span />
+            )}
+          </div>
+          <button className="px-2 py-1 rounded bg-slate-900 text-white" onClick={addAccount}>
+            Add account
+          </button>
+        </div>
+      )}
+      {error && <div className="text-xs text-rose-600">{error}</div>}
+    </div>
+  );
+}
+
+/** =======================================
+ * WorkspacePanel component
+ * Create, open and delete workspaces, and copy clients and recurring jobs
+ * from one workspace to another.
+ * ======================================= */
+function WorkspacePanel({
+  workspaces, current, dataOf, onSwitch, onAdd, onRemove, onCopy,
+}: {
+  workspaces: Workspace[];
+  current: ID;
+  dataOf: (id: ID) => Stored;
+  onSwitch: (id: ID) => void;
+  onAdd: (name: string, id?: string) => string | undefined;
+  onRemove: (id: ID) => void;
+  onCopy: (from: ID, to: ID, pick: CopyPick) => Promise<string>;
+}) {
+  const [name, setName] = useState("");
+  const [joinId, setJoinId] = useState("");
+  const [error, setError] = useState("");
+  const [from, setFrom] = useState<ID>(current);
+  const [to, setTo] = useState<ID>(workspaces.find((w) => w.id !== current)?.id || current);
+  const [pick, setPick] = useState<CopyPick>({ clients: [], templates: [] });
+  const [done, setDone] = useState("");
+  const source = useMemo(() => dataOf(from), [from]); // eslint-disable-line
+
+  const toggle = (list: "clients" | "templates", id: ID) =>
+    setPick((p) => ({ ...p, [list]: p[list].includes(id) ? p[list].filter((x) => x !== id) : [...p[list], id] }));
+  const add = (id?: string) => {
+    const err = onAdd(name, id);
+    if (err) setError(err);
+    else {
+      setName("");
+      setJoinId("");
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-3 text-sm">
+      <div className="space-y-1">
+        {workspaces.map((w) => (
+          <div key={w.id} className="flex items-center gap-2">
+            <span className={`flex-1 ${w.id === current ? "font-medium" : ""}`}>{w.name}</span>
+            {w.id === DEFAULT_WORKSPACE.id ? (
+              <span className="text-xs text-slate-400">this browser only</span>
+            ) : (
+              <span className="text-xs text-slate-400 font-mono select-all" title="Join with this id on another machine">{w.id}</span>
+            )}
+            {w.id !== current && (
+              <button className="px-2 py-0.5 rounded border text-xs" onClick={() => onSwitch(w.id)}>
+                Open
+              </button>
+            )}
+            {w.id !== current && w.id !== DEFAULT_WORKSPACE.id && (
+              <button className="px-2 py-0.5 rounded border text-xs text-rose-600" onClick={() => onRemove(w.id)}>
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <div>
+        <div className="flex gap-2">
+          <input
+            className="flex-1 border rounded px-2 py-1"
+            placeholder="New workspace, e.g. North depot"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value);
+              setError("");
+            }}
+            onKeyDown={(e) => e.key === "Enter" && add()}
+          />
+          <button className="px-2 py-1 rounded bg-slate-900 text-white" onClick={() => add()}>
+            Create
+          </button>
+        </div>
+        <div className="flex gap-2 mt-1">
+          <input
+            className="flex-1 border rounded px-2 py-1 font-mono text-xs"
+            placeholder="Workspace id from another machine"
+            value={joinId}
+            onChange={(e) => {
+              setJoinId(e.target.value);
+              setError("");
+            }}
+            onKeyDown={(e) => e.key === "Enter" && add(joinId)}
+          />
+          <button className="px-2 py-1 rounded border disabled:opacity-40" disabled={!joinId.trim()} onClick={() => add(joinId)}>
+            Join
+          </button>
+        </div>
+        {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+        <div className="text-xs text-slate-500 mt-1">To open a shared workspace on another machine, join it there by its id; the name above is optional when joining.</div>
+      </div>
+      {workspaces.length > 1 && (
+        <div className="border-t pt-2 space-y-2">
+          <div className="font-medium">Copy clients &amp; recurring jobs</div>
+          <div className="flex items-center gap-2">
+            <select
+              className="border rounded px-1 py-0.5"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPick({ clients: [], templates: [] });
+                setDone("");
+              }}
+            >
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+            →
+            <select className="border rounded px-1 py-0.5" value={to} onChange={(e) => setTo(e.target.value)}>
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>{w.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            {(["clients", "templates"] as const).map((list) => (
+              <div key={list}>
+                <div className="flex items-center gap-2 text-slate-600 mb-1">
+                  {list === "clients" ? "Clients" : "Recurring jobs"}
+                  <button
+                    className="ml-auto underline"
+                    onClick={() => setPick((p) => ({ ...p, [list]: p[list].length ? [] : source[list].map((x) => x.id) }))}
+                  >
+                    {pick[list].length ? "none" : "all"}
+                  </button>
+                </div>
+                <div className="max-h-40 overflow-auto border rounded p-1">
+                  {!source[list].length && <div className="text-slate-400">None</div>}
+                  {source[list].map((x: Client | JobTemplate) => (
+                    <label key={x.id} className="flex items-center gap-1">
+                      <input type="checkbox" checked={pick[list].includes(x.id)} onChange={() => toggle(list, x.id)} />
+                      <span className="truncate">{"name" in x ? x.name : x.job.title}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-slate-500">A recurring job brings its client along.</div>
+          <div className="flex items-center gap-2">
+            <button
+              className="px-2 py-1 rounded bg-slate-900 text-white disabled:opacity-40"
+              disabled={from === to || !(pick.clients.length + pick.templates.length)}
+              onClick={async () => setDone(await onCopy(from, to, pick))}
+            >
+              Copy
+            </button>
+            {from === to && <span className="text-xs text-slate-500">Pick two different workspaces.</span>}
+            {done && <span className="text-xs text-green-700">{done}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** =======================================
+ * SyncStatusView component
+ * Connection state, edits waiting to be sent and, when the store could not
+ * be reached, what went wrong and when the next try is.
+ * ======================================= */
+function SyncStatusView({ status, conflicts, onRetry }: { status: SyncStatus; conflicts: number; onRetry: () => void }) {
+  const color = status.state === "online" ? "text-green-600" : status.state === "offline" ? "text-rose-600" : "text-slate-500";
+  const time = (d: Date | string) => new Date(d).toLocaleTimeString();
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-500">
+      <span className={color}>{status.state === "connecting" ? "connecting…" : status.state}</span>
+      {status.pending > 0 && <span className="text-amber-700">{status.pending} change{status.pending === 1 ? "" : "s"} to send</span>}
+      {conflicts > 0 && <span className="text-rose-600">{conflicts} conflict{conflicts === 1 ? "" : "s"}</span>}
+      {status.blocked > 0 && <span title="Your role cannot change these for everyone; they stay in this browser">{status.blocked} kept local</span>}
+      {status.lastSync && <span>synced {time(status.lastSync)}</span>}
+      {status.error && (
+        <details className="relative">
+          <summary className="cursor-pointer text-rose-600">last error</summary>
+          <div className="absolute right-0 z-20 mt-1 w-80 p-2 rounded border bg-white shadow text-slate-700 space-y-1">
+            <div className="break-words">{status.error.message}</div>
+            <div className="text-slate-500">
+              at {time(status.error.at)} · attempt {status.error.attempts}
+              {status.retryAt && status.state === "offline" ? ` · next try ${time(status.retryAt)}` : ""}
+            </div>
+            {status.pending > 0 && <div>Your changes are kept here and sent in order once the store can be reached.</div>}
+            {status.state === "offline" && (
+              <button className="px-2 py-0.5 rounded border" onClick={onRetry}>
+                Retry now
+              </button>
+            )}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
+
+/** =======================================
+ * ConflictPanel component
+ * Records someone else changed while they were being edited here. Fields
+ * changed on both sides are listed with both values; the user keeps one.
+ * ======================================= */
+function ConflictPanel({
+  conflicts, onResolve,
+}: {
+  conflicts: Conflict[];
+  onResolve: (key: RecordKey, choice: "mine" | "theirs") => void;
+}) {
+  const show = (v: unknown) => (v === undefined ? "—" : typeof v === "string" ? v : JSON.stringify(v));
+  const label = (c: Conflict) => {
+    const rec = c.mine ?? c.theirs.data;
+    if (!rec) return c.key;
+    return isListKey(c.kind) ? recordLabel(rec as ListRecord) : c.kind;
+  };
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-rose-300 bg-rose-50">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="font-medium">Edit conflicts ({conflicts.length})</div>
+        <div className="text-xs text-slate-600">These were changed here and by someone else at the same time. Until you pick a side, your version stays local.</div>
+      </div>
+      <div className="space-y-2 max-h-80 overflow-auto">
+        {conflicts.map((c) => {
+          const mine = (c.mine ?? null) as Record<string, unknown> | null;
+          const theirs = (c.theirs.data ?? null) as Record<string, unknown> | null;
+          const deleted = mine == null ? "You deleted this." : theirs == null ? "It was deleted by someone else." : "";
+          return (
+            <div key={c.key} className="p-2 rounded border bg-white text-sm">
+              <div className="flex items-center gap-2">
+                <span className="px-1.5 py-0.5 rounded bg-slate-100 text-xs">{c.kind}</span>
+                <span className="font-medium">{label(c)}</span>
+                <span className="text-xs text-slate-400">
+                  theirs from {new Date(c.theirs.updatedAt).toLocaleTimeString()}
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <button className="px-2 py-0.5 rounded border text-xs" onClick={() => onResolve(c.key, "mine")}>
+                    Keep mine
+                  </button>
+                  <button className="px-2 py-0.5 rounded bg-slate-900 text-white text-xs" onClick={() => onResolve(c.key, "theirs")}>
+                    Take theirs
+                  </button>
+                </div>
+              </div>
+              {!mine || !theirs ? (
+                <div className="mt-1 text-xs text-rose-700">{deleted}</div>
+              ) : (
+                <table className="mt-1 text-xs w-full">
+                  <thead>
+                    <tr className="text-left text-slate-500">
+                      <th className="pr-2 font-normal">Field</th>
+                      <th className="pr-2 font-normal">Mine</th>
+                      <th className="font-normal">Theirs</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {c.fields.map((f) => (
+                      <tr key={f} className="align-top">
+                        <td className="pr-2 text-slate-600">{f}</td>
+                        <td className="pr-2 break-all">{show(mine[f])}</td>
+                        <td className="break-all">{show(theirs[f])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** =======================================
+ * RecoveryPanel component
+ * Stored records that could not be read after migration. Each can be
+ * edited as JSON and tried again, downloaded, or discarded.
+ * ======================================= */
+function RecoveryPanel({
+  items, onRestore, onDiscard,
+}: {
+  items: RecoveryItem[];
+  onRestore: (itemId: ID, key: StoredKey, value: unknown) => void;
+  onDiscard: (ids: ID[]) => void;
+}) {
+  const [editing, setEditing] = useState<{ id: ID; text: string; error: string } | null>(null);
+
+  const retry = (item: RecoveryItem) => {
+    if (!editing || !isListKey(item.key)) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(editing.text);
+    } catch (e: any) {
+      setEditing({ ...editing, error: `Not valid JSON: ${e?.message || e}` });
+      return;
+    }
+    const res = retryRecord(item.key, record);
+    if (res.reason) setEditing({ ...editing, error: `Still not readable: ${res.reason}` });
+    else {
+      onRestore(item.id, item.key, res.value);
+      setEditing(null);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 rounded-lg border border-amber-300 bg-amber-50">
+      <div className="flex items-center gap-2 mb-2">
+        <div className="font-medium">Recovered records ({items.length})</div>
+        <div className="text-xs text-slate-600">Stored data that could not be read; nothing was thrown away.</div>
+        <button
+          className="ml-auto px-2 py-1 rounded border bg-white text-sm"
+          onClick={() => download(new Blob([JSON.stringify(items, null, 2)], { type: "application/json" }), "recovered-records.json")}
+        >
+          Download all
+        </button>
+        <button
+          className="px-2 py-1 rounded border bg-white text-sm text-rose-600"
+          onClick={() => confirm(`Discard all ${items.length} recovered records?`) && onDiscard(items.map((x) => x.id))}
+        >
+          Discard all
+        </button>
+      </div>
+      <div className="space-y-2 max-h-80 overflow-auto">
+        {items.map((item) => (
+          <div key={item.id} className="p-2 rounded border bg-white text-sm">
+            <div className="flex items-center gap-2">
+              <span className="px-1.5 py-0.5 rounded bg-slate-100 text-xs">{item.key}</span>
+              <span className="text-rose-700">{item.reason}</span>
+              <span className="text-xs text-slate-400">{new Date(item.at).toLocaleString()}</span>
+              <div className="ml-auto flex gap-2">
+                {isListKey(item.key) && editing?.id !== item.id && (
+                  <button
+                    className="px-2 py-0.5 rounded border text-xs"
+                    onClick={() => setEditing({ id: item.id, text: JSON.stringify(item.record, null, 2) ?? "", error: "" })}
+                  >
+                    Edit &amp; retry
+                  </button>
+                )}
+                <button className="px-2 py-0.5 rounded border text-xs text-rose-600" onClick={() => onDiscard([item.id])}>
+                  Discard
+                </button>
+              </div>
+            </div>
+            {editing?.id === item.id ? (
+              <div className="mt-2">
+                <textarea
+                  className="w-full h-40 border rounded p-1 font-mono text-xs"
+                  value={editing.text}
+                  onChange={(e) => setEditing({ ...editing, text: e.target.value, error: "" })}
+                />
+                {editing.error && <div className="text-xs text-rose-600">{editing.error}</div>}
+                <div className="flex gap-2 mt-1">
+                  <button className="px-2 py-0.5 rounded bg-slate-900 text-white text-xs" onClick={() => retry(item)}>
+                    Retry
+                  </button>
+                  <button className="px-2 py-0.5 rounded border text-xs" onClick={() => setEditing(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <pre className="mt-1 text-xs text-slate-600 whitespace-pre-wrap break-all max-h-20 overflow-hidden">
+                {typeof item.record === "string" ? item.record : JSON.stringify(item.record)}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** =======================================
+ * BackupPanel component
+ * Download the whole state, or restore it from a file or a local
+ * snapshot after previewing what would change.
+ * ======================================= */
+function BackupPanel({
+  current, snapshots, onSnapshot, onApply,
+}: {
+  current: Stored;
+  snapshots: Snapshot[];
+  onSnapshot: () => void;
+  onApply: (next: Stored, lost: RecoveryItem[]) => void;
+}) {
+  const [pending, setPending] = useState<{ source: string; state: Partial<Stored>; recovery: RecoveryItem[] } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("replace");
+  const [snapshotId, setSnapshotId] = useState<ID>("");
+  const [error, setError] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const diff = useMemo(() => (pending ? diffRestore(current, pending.state, mode) : []), [current, pending, mode]);
+
+  const downloadBackup = () => {
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-");
+    download(new Blob([JSON.stringify(makeBackup(current), null, 2)], { type: "application/json" }), `truck-scheduler-backup-${stamp}.json`);
+  };
+  const preview = (source: string, text: string) => {
+    const res = readBackup(text);
+    if (res.error || !res.state) {
+      setPending(null);
+      setError(`${source}: ${res.error}`);
+      return;
+    }
+    setError("");
+    setPending({ source: res.savedAt ? `${source} (saved ${new Date(res.savedAt).toLocaleString()})` : source, state: res.state, recovery: res.recovery });
+  };
+  const pickFile = async (f?: File) => {
+    if (f) preview(f.name, await f.text());
+    if (fileRef.current) fileRef.current.value = "";
+  };
+  const pickSnapshot = () => {
+    const s = snapshots.find((x) => x.id === snapshotId);
+    if (s) preview(`Snapshot ${new Date(s.at).toLocaleString()}`, JSON.stringify(s.backup));
+  };
+  const apply = () => {
+    if (!pending) return;
+    onApply(restoreState(current, pending.state, mode), pending.recovery);
+    setPending(null);
+  };
+
+  return (
+    <div className="text-sm">
+      <div className="flex flex-wrap gap-2 items-center">
+        <button className="px-2 py-1 rounded border" onClick={downloadBackup}>Download backup</button>
+        <label className="px-2 py-1 rounded border cursor-pointer">
+          Restore from file…
+          <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={(e) => pickFile(e.target.files?.[0])} />
+        </label>
+        <span className="mx-2 h-5 border-l" />
+        <select className="border rounded px-2 py-1" value={snapshotId} onChange={(e) => setSnapshotId(e.target.value)}>
+          <option value="">— Snapshot ({snapshots.length}) —</option>
+          {snapshots.map((s) => (
+            <option key={s.id} value={s.id}>
+              {new Date(s.at).toLocaleString()} · {s.label}
+            </option>
+          ))}
+        </select>
+        <button className="px-2 py-1 rounded border disabled:opacity-50" disabled={!snapshotId} onClick={pickSnapshot}>
+          Preview restore
+        </button>
+        <button className="px-2 py-1 rounded border" onClick={onSnapshot}>Snapshot now</button>
+      </div>
+      <div className="text-xs text-slate-500 mt-1">
+        Snapshots are taken every 30 minutes while the plan changes and kept in this browser: all from the last 3 hours, hourly for a day, daily for a week.
+      </div>
+      {error && <div className="text-xs text-rose-600 mt-1">{error}</div>}
+
+      {pending && (
+        <div className="mt-3 p-2 rounded border bg-slate-50">
+          <div className="flex flex-wrap items-center gap-3 mb-2">
+            <div className="font-medium">Restore {pending.source}</div>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={mode === "replace"} onChange={() => setMode("replace")} />
+              Replace everything
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={mode === "merge"} onChange={() => setMode("merge")} />
+              Merge by id (file wins)
+            </label>
+          </div>
+          {diff.length === 0 ? (
+            <div className="text-xs text-slate-500 mb-2">Nothing would change.</div>
+          ) : (
+            <table className="w-full text-xs mb-2">
+              <tbody>
+                {diff.map((d) => (
+                  <tr key={d.key} className="border-t align-top">
+                    <td className="py-1 pr-2 font-medium w-28">{d.key}</td>
+                    {([
+                      ["added", d.added, "text-emerald-700", "+"],
+                      ["changed", d.changed, "text-amber-700", "~"],
+                      ["removed", d.removed, "text-rose-700", "−"],
+                    ] as const).map(([label, list, color, sign]) => (
+                      <td key={label} className={`py-1 pr-2 ${color}`}>
+                        {list.length > 0 && (
+                          <details>
+                            <summary className="cursor-pointer">
+                              {sign}
+                              {list.length} {label}
+                            </summary>
+                            <div className="text-slate-600">
+                              {list.slice(0, 20).join(", ")}
+                              {list.length > 20 ? ` … and ${list.length - 20} more` : ""}
+                            </div>
+                          </details>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {pending.recovery.length > 0 && (
+            <div className="text-xs text-amber-700 mb-2">
+              {pending.recovery.length} record(s) in the file cannot be read; they go to the recovery area.
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button className="px-3 py-1 rounded bg-slate-900 text-white disabled:opacity-50" disabled={!diff.length} onClick={apply}>
+              {mode === "replace" ? "Replace" : "Merge"}
+            </button>
+            <button className="px-3 py-1 rounded border" onClick={() => setPending(null)}>Cancel</button>
+            <span className="text-xs text-slate-500 self-center">The current state is snapshotted first.</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
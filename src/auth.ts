@@ -0,0 +1,287 @@
+import { uid } from "./model";
+import type { DayKey, DriverAssignment, ID, ScheduledRow, Truck } from "./model";
+import { STORED_KEYS } from "./schema";
+import type { StoredKey } from "./schema";
+
+/** =======================================
+ * Accounts & roles
+ * Who may write which part of the plan. The UI hides what a role cannot
+ * do, the actions check again, and the sync engine never sends a record
+ * the role may not write. None of that is a boundary: a shared store signs
+ * people in itself and enforces the same table where data is read and
+ * written (the Supabase policies and the REST protocol below).
+ * ======================================= */
+export type Role = "dispatcher" | "planner" | "driver" | "viewer";
+export type Account = { id: ID; email: string; name: string; role: Role; driverId?: ID | null };
+
+export const ROLES: Role[] = ["dispatcher", "planner", "driver", "viewer"];
+export const ROLE_LABELS: Record<Role, string> = {
+  dispatcher: "Dispatcher",
+  planner: "Planner",
+  driver: "Driver",
+  viewer: "Viewer",
+};
+export const ROLE_HINTS: Record<Role, string> = {
+  dispatcher: "edits everything",
+  planner: "edits clients, jobs and the schedule; not trucks, drivers or settings",
+  driver: "sees their own truck",
+  viewer: "read only",
+};
+
+const WRITES: Record<Role, StoredKey[]> = {
+  dispatcher: STORED_KEYS,
+  planner: ["clients", "jobs", "scheduled", "templates", "assignments"],
+  driver: [],
+  viewer: [],
+};
+
+/** Signed out: full access to a plan kept in this browser, read only on a shared one */
+export const roleOf = (account: Account | null, shared: boolean): Role => account?.role ?? (shared ? "viewer" : "dispatcher");
+
+export const canWrite = (role: Role, key: StoredKey) => WRITES[role].includes(key);
+
+// A change that only adds status updates to a scheduled row
+const onlyProgress = (before: ScheduledRow, after: ScheduledRow) => {
+  const { progress: a = [], ...restBefore } = before;
+  const { progress: b = [], ...restAfter } = after;
+  return JSON.stringify(restBefore) === JSON.stringify(restAfter) && b.length >= a.length && JSON.stringify(b.slice(0, a.length)) === JSON.stringify(a);
+};
+const isRow = (v: unknown): v is ScheduledRow => !!v && typeof v === "object" && typeof (v as ScheduledRow).truckId === "string";
+
+/** One record: drivers may also report status on rows of their own trucks */
+export const canWriteRecord = (role: Role, key: StoredKey, before: unknown, after: unknown, ownTrucks: ID[] = []) =>
+  canWrite(role, key) ||
+  (role === "driver" && key === "scheduled" && isRow(before) && isRow(after) && onlyProgress(before, after) && ownTrucks.includes(after.truckId));
+
+/** The trucks a driver drives on any of `days`; everyone else sees all of them */
+export const visibleTrucks = (
+  trucks: Truck[],
+  role: Role,
+  driverId: ID | null | undefined,
+  assignments: DriverAssignment[],
+  days: readonly DayKey[]
+): Truck[] => {
+  if (role !== "driver") return trucks;
+  const mine = new Set(assignments.filter((a) => days.includes(a.day) && a.driverId === driverId).map((a) => a.truckId));
+  return trucks.filter((t) => mine.has(t.id));
+};
+
+/** =======================================
+ * Sign-in providers
+ * ======================================= */
+export interface AuthProvider {
+  /** The account of a session that is still open, if any */
+  restore(): Promise<Account | null>;
+  signIn(email: string, password: string): Promise<Account>;
+  signOut(): Promise<void>;
+}
+
+/**
+ * Stand-in for trying roles without a server: accounts live in this
+ * browser and need no password. Not a security boundary, so only offered
+ * while the plan stays in this browser (no store, or "This browser").
+ */
+export const localAuth = (accountsKey = "ts_accounts", sessionKey = "ts_session") => {
+  const read = (): Account[] => {
+    try {
+      return JSON.parse(localStorage.getItem(accountsKey) || "[]");
+    } catch {
+      return [];
+    }
+  };
+  const write = (list: Account[]) => localStorage.setItem(accountsKey, JSON.stringify(list));
+  const provider: AuthProvider = {
+    async restore() {
+      const id = localStorage.getItem(sessionKey);
+      return read().find((a) => a.id === id) ?? null;
+    },
+    async signIn(email) {
+      const account = read().find((a) => a.email.toLowerCase() === email.trim().toLowerCase());
+      if (!account) throw new Error(`No local account for ${email}`);
+      localStorage.setItem(sessionKey, account.id);
+      return account;
+    },
+    async signOut() {
+      localStorage.removeItem(sessionKey);
+    },
+  };
+  return {
+    ...provider,
+    accounts: read,
+    /** Add or update an account by email */
+    saveAccount(a: Omit<Account, "id"> & { id?: ID }): Account {
+      const list = read();
+      const old = list.find((x) => x.id === a.id || x.email.toLowerCase() === a.email.toLowerCase());
+      const account: Account = { ...a, id: old?.id ?? a.id ?? uid() };
+      write(old ? list.map((x) => (x === old ? account : x)) : [...list, account]);
+      return account;
+    },
+    removeAccount(id: ID) {
+      write(read().filter((a) => a.id !== id));
+    },
+  };
+};
+export type LocalAuth = ReturnType<typeof localAuth>;
+
+/**
+ * Supabase auth; the role comes from the members table of the workspace.
+ * Every policy goes through membership, so a workspace id alone (or the
+ * anon key) reads nothing. Whoever first signs in to a workspace nobody
+ * belongs to yet becomes its dispatcher; a dispatcher adds the others.
+ * Signed in without a membership is read only.
+ *
+ *   create table members (
+ *     workspace text not null,
+ *     user_id uuid not null references auth.users,
+ *     name text,
+ *     role text not null check (role in ('dispatcher', 'planner', 'driver', 'viewer')),
+ *     driver_id text,
+ *     primary key (workspace, user_id)
+ *   );
+ *   alter table members enable row level security;
+ *   alter table app_records enable row level security;
+ *   create policy "own membership" on members for select using (user_id = auth.uid());
+ *
+ *   -- The first member of an empty workspace, as dispatcher; false once it has
+ *   -- one, and for the "default" id every browser has
+ *   create function claim_workspace(ws text) returns boolean
+ *   language plpgsql security definer set search_path = public as $$
+ *   begin
+ *     if ws = 'default' then return false; end if;
+ *     if exists (select 1 from members where workspace = ws) then return false; end if;
+ *     insert into members (workspace, user_id, role) values (ws, auth.uid(), 'dispatcher');
+ *     return true;
+ *   end $$;
+ *   create function add_member(ws text, email text, member_role text, driver text default null) returns void
+ *   language sql security definer set search_path = public as $$
+ *     insert into members (workspace, user_id, name, role, driver_id)
+ *     select ws, u.id, u.email, member_role, driver from auth.users u
+ *     where u.email = add_member.email
+ *       and exists (select 1 from members where workspace = ws and user_id = auth.uid() and role = 'dispatcher')
+ *     on conflict (workspace, user_id) do update set role = excluded.role, driver_id = excluded.driver_id
+ *   $$;
+ *
+ *   -- What a driver may see: their assignments and trucks, the rows on
+ *   -- those trucks with their jobs and clients, and the shared settings.
+ *   -- Security definer, so reading app_records here skips the policies.
+ *   create function driver_keys(ws text) returns setof text
+ *   language sql stable security definer set search_path = public as $$
+ *     with me as (select driver_id from members where workspace = ws and user_id = auth.uid() and role = 'driver'),
+ *     mine as (select a.key, a.data->>'truckId' as truck from app_records a join me on a.data->>'driverId' = me.driver_id
+ *       where a.workspace = ws and a.kind = 'assignments'),
+ *     rows as (select r.key, r.data->>'jobId' as job from app_records r
+ *       where r.workspace = ws and r.kind = 'scheduled' and r.data->>'truckId' in (select truck from mine)),
+ *     jobs as (select j.key, j.data->>'clientId' as client from app_records j
+ *       where j.workspace = ws and j.kind = 'jobs' and j.data->>'id' in (select job from rows))
+ *     select key from mine
+ *     union select 'trucks:' || truck from mine
+ *     union select 'drivers:' || driver_id from me
+ *     union select key from rows
+ *     union select key from jobs
+ *     union select 'clients:' || client from jobs where client is not null
+ *     union select 'settings:shared' from me
+ *   $$;
+ *
+ *   create policy "staff read" on app_records for select
+ *     using (exists (select 1 from members m where m.workspace = app_records.workspace and m.user_id = auth.uid() and m.role <> 'driver'));
+ *   create policy "drivers read their trucks" on app_records for select
+ *     using (app_records.key in (select driver_keys(app_records.workspace)));
+ *   create policy "role writes" on app_records for all
+ *     using (exists (select 1 from members m where m.workspace = app_records.workspace and m.user_id = auth.uid()
+ *       and (m.role = 'dispatcher'
+ *         or (m.role = 'planner' and app_records.kind in ('clients', 'jobs', 'scheduled', 'templates', 'assignments')))));
+ *   create policy "drivers report" on app_records for update
+ *     using (app_records.kind = 'scheduled' and app_records.key in (select driver_keys(app_records.workspace)));
+ *   -- Policies cannot compare old and new, so a trigger keeps drivers to status updates
+ *   create function drivers_report_only() returns trigger
+ *   language plpgsql security definer set search_path = public as $$
+ *   begin
+ *     if exists (select 1 from members where workspace = old.workspace and user_id = auth.uid() and role = 'driver')
+ *       and (new.workspace <> old.workspace or new.key <> old.key or new.kind <> old.kind
+ *         or (new.data - 'progress') is distinct from (old.data - 'progress')) then
+ *       raise exception 'drivers may only report status' using errcode = '42501';
+ *     end if;
+ *     return new;
+ *   end $$;
+ *   create trigger drivers_report_only before update on app_records
+ *     for each row execute function drivers_report_only();
+ */
+export const supabaseAuth = (sb: any, workspace: ID): AuthProvider => {
+  const accountOf = async (user: any): Promise<Account> => {
+    const member = () => sb.from("members").select("name, role, driver_id").eq("workspace", workspace).eq("user_id", user.id).maybeSingle();
+    let { data } = await member();
+    if (!data && (await sb.rpc("claim_workspace", { ws: workspace })).data === true) ({ data } = await member());
+    return {
+      id: user.id,
+      email: user.email,
+      name: data?.name || user.email,
+      role: ROLES.includes(data?.role) ? data.role : "viewer",
+      driverId: data?.driver_id ?? null,
+    };
+  };
+  return {
+    async restore() {
+      const { data } = await sb.auth.getSession();
+      return data?.session?.user ? accountOf(data.session.user) : null;
+    },
+    async signIn(email, password) {
+      const { data, error } = await sb.auth.signInWithPassword({ email, password });
+      if (error) throw new Error(error.message);
+      return accountOf(data.user);
+    },
+    async signOut() {
+      await sb.auth.signOut();
+    },
+  };
+};
+
+/**
+ * Sign-in on a REST server (see `restAdapter` in storage.ts). The server
+ * owns the accounts and their roles; the token it hands out goes with
+ * every request, and the server checks the role on each read and write.
+ *
+ *   POST   {base}/workspaces/{ws}/session   body { email, password } → { token, account }
+ *   GET    {base}/workspaces/{ws}/session   → { account }, 401 when the token is no longer valid
+ *   DELETE {base}/workspaces/{ws}/session
+ */
+export const restAuth = (base: string, workspace: ID) => {
+  const root = `${base.replace(/\/+$/, "")}/workspaces/${encodeURIComponent(workspace)}`;
+  const tokenKey = `ts_rest_token:${root}`;
+  const token = () => localStorage.getItem(tokenKey);
+  const call = async (method: string, body?: unknown) => {
+    const t = token();
+    const res = await fetch(`${root}/session`, {
+      method,
+      headers: { "Content-Type": "application/json", ...(t ? { Authorization: `Bearer ${t}` } : {}) },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => null);
+    return { status: res.status, ok: res.ok, data };
+  };
+  const accountOf = (a: Partial<Account> = {}): Account => ({
+    id: String(a.id ?? ""),
+    email: String(a.email ?? ""),
+    name: String(a.name || a.email || ""),
+    role: a.role && ROLES.includes(a.role) ? a.role : "viewer",
+    driverId: a.driverId ?? null,
+  });
+  const provider: AuthProvider = {
+    async restore() {
+      if (!token()) return null;
+      const { ok, status, data } = await call("GET");
+      if (status === 401) localStorage.removeItem(tokenKey);
+      return ok && data?.account ? accountOf(data.account) : null;
+    },
+    async signIn(email, password) {
+      const { ok, data } = await call("POST", { email, password });
+      if (!ok || !data?.token) throw new Error(data?.error || "Sign-in failed");
+      localStorage.setItem(tokenKey, data.token);
+      return accountOf(data.account);
+    },
+    async signOut() {
+      await call("DELETE").catch(() => null);
+      localStorage.removeItem(tokenKey);
+    },
+  };
+  return { ...provider, token };
+};
@@ -0,0 +1,29 @@
+import { toHHMM, toMin, uid } from "./model";
+import type { DayKey, Truck, Unavailability } from "./model";
+
+/** =======================================
+ * Truck unavailability
+ * Pure: windows in which a truck cannot take work on a day. Nothing may be
+ * planned or dropped inside one; rows already there are flagged for moving.
+ * ======================================= */
+export const newUnavailability = (day: DayKey, from = "08:00", to = "12:00"): Unavailability => ({
+  id: uid(),
+  day,
+  from,
+  to,
+  reason: "Service",
+});
+
+// A truck's windows on `day` in minutes, in time order
+export const blockedSlots = (truck: Truck | undefined, day: DayKey) =>
+  (truck?.unavailable || [])
+    .filter((u) => u.day === day && toMin(u.to) > toMin(u.from))
+    .map((u) => ({ start: toMin(u.from), end: toMin(u.to), block: u }))
+    .sort((a, b) => a.start - b.start);
+
+/** The window that `st`–`en` runs into, if any */
+export const blockAt = (truck: Truck | undefined, day: DayKey, st: number, en: number): Unavailability | undefined =>
+  blockedSlots(truck, day).find((b) => st < b.end && en > b.start)?.block;
+
+export const unavailabilityLabel = (u: Unavailability) =>
+  `${toHHMM(toMin(u.from))}–${toHHMM(toMin(u.to))}${u.reason ? ` (${u.reason})` : ""}`;
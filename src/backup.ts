@@ -0,0 +1,136 @@
+import { toHHMM, uid } from "./model";
+import type { ID } from "./model";
+import { STORED_KEYS, isListKey, listId, readStored, unwrap, wrap } from "./schema";
+import type { Envelope, ListKey, ListRecord, RecoveryItem, Stored, StoredKey } from "./schema";
+
+/** =======================================
+ * Backup, restore & snapshots
+ * Pure: a backup is the whole stored state in one schema envelope. Reading
+ * one goes through the same migrations and checks as local storage.
+ * Restoring either replaces everything or merges by id; the preview lists
+ * what that adds, changes and removes before anything is applied.
+ * ======================================= */
+export type RestoreMode = "replace" | "merge";
+export type Backup = Envelope<Stored> & { kind: "truck-scheduler-backup" };
+
+export const makeBackup = (state: Stored, now = new Date()): Backup => ({ kind: "truck-scheduler-backup", ...wrap(state, now) });
+
+/** The state in a backup file, or why it is not one */
+export const readBackup = (text: string): { state?: Partial<Stored>; recovery: RecoveryItem[]; savedAt?: string; error?: string } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { recovery: [], error: "The file is not JSON." };
+  }
+  const { version, data } = unwrap(raw);
+  if (!data || typeof data !== "object" || !STORED_KEYS.some((k) => k in (data as object)))
+    return { recovery: [], error: "The file has no trucks, clients, jobs or schedule in it." };
+  const { state, recovery } = readStored(data as object, version);
+  return { state, recovery, savedAt: (raw as Backup).savedAt };
+};
+
+/** A record as a person would name it */
+export const recordLabel = (r: ListRecord): string => {
+  if ("title" in r) return `${r.type}: ${r.title}`; // a job
+  if ("startMin" in r) return `${r.day} ${toHHMM(r.startMin)}–${toHHMM(r.endMin)}`; // a schedule row
+  if ("job" in r) return r.job?.title || r.id; // a recurring job
+  if (!("id" in r)) return `${r.day} · truck ${r.truckId}`; // an assignment
+  return r.name || r.id;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const put = <K extends StoredKey>(state: Stored, key: K, value: Stored[K]) => {
+  state[key] = value;
+};
+
+// A list from the backup merged into the current one by id
+const mergeList = <K extends ListKey>(current: Stored[K], next: Stored[K]): Stored[K] => {
+  const byId = new Map(next.map((r: ListRecord) => [listId(r), r]));
+  const have = new Set(current.map((r: ListRecord) => listId(r)));
+  return [...current.map((r: ListRecord) => byId.get(listId(r)) ?? r), ...next.filter((r: ListRecord) => !have.has(listId(r)))] as Stored[K];
+};
+
+/** `current` with `incoming` applied */
+export const restoreState = (current: Stored, incoming: Partial<Stored>, mode: RestoreMode): Stored => {
+  const out: Stored = { ...current };
+  for (const key of STORED_KEYS) {
+    const next = incoming[key];
+    if (next === undefined) continue; // keys missing from the file stay as they are
+    if (mode === "replace") put(out, key, next);
+    else if (isListKey(key)) put(out, key, mergeList(current[key], next as Stored[typeof key]));
+    else if (key === "settings") out.settings = { ...current.settings, ...incoming.settings };
+    else out.matrix = { ...current.matrix, ...incoming.matrix };
+  }
+  return out;
+};
+
+export type KeyDiff = { key: StoredKey; added: string[]; changed: string[]; removed: string[] };
+
+/** What restoring `incoming` over `current` adds, changes and removes, per key */
+export const diffRestore = (current: Stored, incoming: Partial<Stored>, mode: RestoreMode): KeyDiff[] => {
+  const next = restoreState(current, incoming, mode);
+  return STORED_KEYS.map((key) => {
+    const d: KeyDiff = { key, added: [], changed: [], removed: [] };
+    if (isListKey(key)) {
+      const before = new Map(current[key].map((r: ListRecord) => [listId(r), r]));
+      const after = new Map(next[key].map((r: ListRecord) => [listId(r), r]));
+      for (const [k, r] of after) {
+        if (!before.has(k)) d.added.push(recordLabel(r));
+        else if (!same(before.get(k), r)) d.changed.push(recordLabel(r));
+      }
+      for (const [k, r] of before) if (!after.has(k)) d.removed.push(recordLabel(r));
+    } else {
+      // Settings and the distance table: one entry per field / leg
+      const before = current[key] as Record<string, unknown>;
+      const after = next[key] as Record<string, unknown>;
+      for (const f of Object.keys(after)) {
+        if (!(f in before)) d.added.push(f);
+        else if (!same(before[f], after[f])) d.changed.push(f);
+      }
+      for (const f of Object.keys(before)) if (!(f in after)) d.removed.push(f);
+    }
+    return d;
+  }).filter((d) => d.added.length || d.changed.length || d.removed.length);
+};
+
+/** =======================================
+ * Rolling snapshots
+ * Kept in local storage: everything from the last 3 hours, then one per
+ * hour for a day, then one per day for a week. They only get what room
+ * the live data leaves: the app caps them by size and drops the oldest
+ * when a live save does not fit.
+ * ======================================= */
+export type Snapshot = { id: ID; at: string; label: string; backup: Backup };
+
+export const SNAPSHOT_EVERY_MIN = 30;
+const HOUR = 3600_000;
+
+export const takeSnapshot = (state: Stored, label: string, now = new Date()): Snapshot => ({
+  id: uid(),
+  at: now.toISOString(),
+  label,
+  backup: makeBackup(state, now),
+});
+
+/** Whether `state` is worth a new periodic snapshot after `last` */
+export const snapshotDue = (last: Snapshot | undefined, state: Stored, now = new Date()) =>
+  !last || (now.getTime() - Date.parse(last.at) >= SNAPSHOT_EVERY_MIN * 60_000 && !same(last.backup.data, state));
+
+/** Newest first, thinned out with age */
+export const pruneSnapshots = (list: Snapshot[], now = new Date()): Snapshot[] => {
+  const seen = new Set<string>();
+  return [...list]
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .filter((s) => {
+      const age = now.getTime() - Date.parse(s.at);
+      if (age < 3 * HOUR) return true;
+      if (age > 7 * 24 * HOUR) return false;
+      // One per hour within a day, one per day after that; the newest of each wins
+      const bucket = age < 24 * HOUR ? s.at.slice(0, 13) : s.at.slice(0, 10);
+      if (seen.has(bucket)) return false;
+      seen.add(bucket);
+      return true;
+    });
+};
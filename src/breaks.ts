@@ -0,0 +1,138 @@
+import {
+  isBreak,
+  jobDuration,
+  toHHMM,
+  toMin,
+  uid,
+} from "./model";
+import type { BreakRule, DayKey, ID, Job, ScheduledRow } from "./model";
+import { drivingMin } from "./drivers";
+
+/** =======================================
+ * Rest breaks
+ * Breaks sit between jobs, never inside one. A "driving" rule needs a break
+ * of at least `minutes` before driving since the last such break exceeds
+ * `afterDrivingMin`. A "window" rule needs one break of at least `minutes`
+ * inside `from`–`to` on days with work in that window.
+ * ======================================= */
+export const newBreakRule = (kind: BreakRule["kind"]): BreakRule =>
+  kind === "driving"
+    ? { id: uid(), label: "Driving break", minutes: 45, kind, afterDrivingMin: 270 }
+    : { id: uid(), label: "Lunch", minutes: 30, kind, from: "11:30", to: "13:30" };
+
+export const ruleLabel = (r: BreakRule) =>
+  r.kind === "driving"
+    ? `${r.minutes} min after ${r.afterDrivingMin / 60}h driving`
+    : `${r.minutes} min between ${r.from} and ${r.to}`;
+
+/** The `n`th break of `ruleId` on a truck-day; the same plan gives the same ids */
+export const breakId = (truckId: ID, day: DayKey, ruleId: ID, n: number) => `break:${truckId}:${day}:${ruleId}:${n}`;
+
+export const breakRow = (truckId: ID, day: DayKey, start: number, rule: BreakRule, pinned = false, id: ID = uid()): ScheduledRow => ({
+  id,
+  kind: "break",
+  jobId: "",
+  truckId,
+  day,
+  startMin: start,
+  endMin: start + rule.minutes,
+  ruleId: rule.id,
+  pinned,
+});
+
+type Block = { start: number; end: number; job?: Job; breakMin?: number };
+
+/** Rolling state while walking a truck-day in time order */
+export type BreakState = { drivingSince: number; windowsTaken: Set<ID> };
+export const freshBreakState = (): BreakState => ({ drivingSince: 0, windowsTaken: new Set() });
+
+// Account for a block that has happened
+export const stepBreakState = (rules: BreakRule[], st: BreakState, b: Block) => {
+  if (b.job) {
+    st.drivingSince += drivingMin(b.job);
+    return;
+  }
+  const len = b.end - b.start;
+  for (const r of rules) {
+    if (len < r.minutes) continue;
+    if (r.kind === "driving") st.drivingSince = 0;
+    else if (b.start >= toMin(r.from) && b.end <= toMin(r.to)) st.windowsTaken.add(r.id);
+  }
+};
+
+/** A break the truck must take before starting `job` at `start` (earliest at `cur`), if any */
+export const breakDue = (
+  rules: BreakRule[],
+  st: BreakState,
+  cur: number,
+  job: Job,
+  start: number
+): { rule: BreakRule; start: number } | null => {
+  for (const r of rules) {
+    if (r.kind === "driving") {
+      if (st.drivingSince > 0 && st.drivingSince + drivingMin(job) > r.afterDrivingMin) return { rule: r, start: cur };
+      continue;
+    }
+    if (st.windowsTaken.has(r.id)) continue;
+    // Take it now if the job would run past the last moment the break can start
+    const latest = toMin(r.to) - r.minutes;
+    const bStart = Math.max(cur, toMin(r.from));
+    if (start + jobDuration(job) > latest && bStart <= latest) return { rule: r, start: bStart };
+  }
+  return null;
+};
+
+export type MissingBreak = { rule: BreakRule; rowId: ID; message: string; gap?: { start: number } };
+
+/** Rule breaches on one truck-day; `rows` in time order (jobs and breaks), `jobOf` the job a row does */
+export const missingBreaks = (rules: BreakRule[], rows: ScheduledRow[], jobOf: (r: ScheduledRow) => Job | undefined): MissingBreak[] => {
+  const out: MissingBreak[] = [];
+  const st = freshBreakState();
+  const jobRows = rows.filter((r) => !isBreak(r) && jobOf(r));
+  const freeGap = (from: number, to: number, minutes: number) => {
+    // First gap of `minutes` between rows, inside [from, to]
+    let cur = from;
+    for (const r of rows) {
+      if (r.endMin <= cur) continue;
+      if (r.startMin - cur >= minutes) break;
+      cur = Math.max(cur, r.endMin);
+    }
+    return cur + minutes <= to ? { start: cur } : undefined;
+  };
+
+  let prevEnd = -Infinity;
+  for (const r of rows) {
+    const job = isBreak(r) ? undefined : jobOf(r);
+    if (job) {
+      for (const rule of rules) {
+        if (rule.kind !== "driving") continue;
+        if (st.drivingSince + drivingMin(job) > rule.afterDrivingMin && st.drivingSince > 0) {
+          out.push({
+            rule,
+            rowId: r.id,
+            message: `${Math.round(((st.drivingSince + drivingMin(job)) / 60) * 10) / 10}h driving without a ${rule.minutes}-min break`,
+            gap: r.startMin - prevEnd >= rule.minutes ? { start: r.startMin - rule.minutes } : undefined,
+          });
+          st.drivingSince = 0; // report once per stretch
+        }
+      }
+      prevEnd = r.endMin;
+    }
+    stepBreakState(rules, st, { start: r.startMin, end: r.endMin, job });
+  }
+
+  for (const rule of rules) {
+    if (rule.kind !== "window" || st.windowsTaken.has(rule.id)) continue;
+    const from = toMin(rule.from);
+    const to = toMin(rule.to);
+    const during = jobRows.filter((r) => r.startMin < to && r.endMin > from);
+    if (!during.length) continue;
+    out.push({
+      rule,
+      rowId: during[0].id,
+      message: `no ${rule.minutes}-min ${rule.label.toLowerCase()} between ${toHHMM(from)} and ${toHHMM(to)}`,
+      gap: freeGap(from, to, rule.minutes),
+    });
+  }
+  return out;
+};
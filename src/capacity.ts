@@ -0,0 +1,93 @@
+import type { ID, Job, LoadSize, Truck } from "./model";
+
+/** =======================================
+ * Capacity & running load
+ * A Delivery is loaded at the depot (anything still on board is unloaded
+ * there first) and is empty after the offload. A Collection adds its size at
+ * the site and only unloads when it returns to the depot, so collections
+ * without a return leg build up load across trips. A multi-stop run loads
+ * every delivery at the depot before its first stop and unloads only after
+ * its last.
+ * ======================================= */
+export const DIMENSIONS: { key: keyof LoadSize; label: string; unit: string }[] = [
+  { key: "weightKg", label: "Weight", unit: "kg" },
+  { key: "pallets", label: "Pallets", unit: "pallets" },
+  { key: "volumeM3", label: "Volume", unit: "m³" },
+];
+
+export const addSize = (a: LoadSize, b: LoadSize | undefined): LoadSize => {
+  const out: LoadSize = { ...a };
+  for (const { key } of DIMENSIONS) if (b?.[key] != null) out[key] = (out[key] || 0) + b[key]!;
+  return out;
+};
+
+export const sizeLabel = (s?: LoadSize) =>
+  DIMENSIONS.filter((d) => s?.[d.key]).map((d) => `${s![d.key]} ${d.unit}`).join(", ");
+
+// First dimension where `size` does not fit `cap`, or null
+export const exceeds = (size: LoadSize | undefined, cap: LoadSize | undefined) => {
+  for (const d of DIMENSIONS) {
+    const need = size?.[d.key];
+    const have = cap?.[d.key];
+    if (need != null && have != null && need > have) return { ...d, need, have };
+  }
+  return null;
+};
+
+const subSize = (a: LoadSize, b: LoadSize | undefined): LoadSize => {
+  const out: LoadSize = { ...a };
+  for (const { key } of DIMENSIONS) if (b?.[key] != null && out[key] != null) out[key] = Math.max(0, out[key]! - b[key]!);
+  return out;
+};
+
+/** Peak load on board during each job, for jobs in driving order; `runIds[i]` marks run stops */
+export const runningLoad = (ordered: Job[], runIds: (ID | undefined)[] = []): LoadSize[] => {
+  let carried: LoadSize = {};
+  return ordered.map((j, i) => {
+    const run = runIds[i];
+    if (run) {
+      if (runIds[i - 1] !== run) {
+        carried = {};
+        for (let k = i; k < ordered.length && runIds[k] === run; k++) {
+          if (ordered[k].type === "Delivery") carried = addSize(carried, ordered[k].size);
+        }
+      }
+      const peak = j.type === "Delivery" ? carried : addSize(carried, j.size);
+      carried = j.type === "Delivery" ? subSize(carried, j.size) : peak;
+      if (runIds[i + 1] !== run) carried = {}; // back at the depot
+      return peak;
+    }
+    const returns = (j.returnTravelMin || 0) > 0;
+    if (j.type === "Delivery") {
+      const peak = addSize({}, j.size);
+      carried = {};
+      return peak;
+    }
+    const peak = addSize(carried, j.size);
+    carried = returns ? {} : peak;
+    return peak;
+  });
+};
+
+/** Why `truck` cannot carry `ordered` (in driving order), or null when it can */
+export const capacityProblem = (
+  truck: Truck | undefined,
+  ordered: Job[],
+  runIds: (ID | undefined)[] = []
+): { job: Job; message: string } | null => {
+  if (!truck?.capacity) return null;
+  const peaks = runningLoad(ordered, runIds);
+  for (let i = 0; i < ordered.length; i++) {
+    const x = exceeds(peaks[i], truck.capacity);
+    if (x) {
+      const alone = !exceeds(ordered[i].size, truck.capacity);
+      return {
+        job: ordered[i],
+        message: alone
+          ? `${truck.name} would carry ${x.need} ${x.unit} (limit ${x.have}) with ${runIds[i] ? "the run's other loads" : "earlier collections"} still on board`
+          : `needs ${x.need} ${x.unit}, ${truck.name} carries ${x.have}`,
+      };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,178 @@
+import { dateOfDay, isBreak, isHardWindow, jobDuration, planWeekOf, toHHMM, toMin, windowBreach } from "./model";
+import type { DayKey, ID, Job, RowDelay, ScheduledRow, Settings, Truck } from "./model";
+import { blockAt, blockedSlots } from "./availability";
+import { exceeds } from "./capacity";
+import { actualSpan, startDelay, updatesOn } from "./status";
+
+/** =======================================
+ * Delays
+ * Pure: a delay is how many minutes a row runs over its plan. The row's
+ * block grows by that much and every later row on the same truck-day is
+ * pushed back until it clears the one before it (buffer, snapped to the
+ * gap, around unavailability). Rows only ever move later; jobs a driver
+ * has already started stay where they are. Rows that end up past the end
+ * of the day or their window are flagged, with moves to trucks that still
+ * have room.
+ * ======================================= */
+export const delayOf = (r: ScheduledRow) => r.delay?.minutes ?? 0;
+/** Where the row ended before any delay */
+export const plannedEnd = (r: ScheduledRow) => r.endMin - delayOf(r);
+
+/** `r` running `delay` over its plan (null clears it); the block grows or shrinks to match */
+export const withDelay = (r: ScheduledRow, delay: RowDelay | null): ScheduledRow => {
+  const { delay: _old, ...rest } = r;
+  const end = plannedEnd(r) + Math.max(0, delay?.minutes ?? 0);
+  return delay && delay.minutes > 0 ? { ...rest, endMin: end, delay } : { ...rest, endMin: end };
+};
+
+/**
+ * The delay the driver's reports point to on `date`: how far the job ran
+ * (or is running) past its planned end, or how late it started. Null when
+ * it is no more than what is already recorded.
+ */
+export const observedDelay = (r: ScheduledRow, date: string, now = new Date()): RowDelay | null => {
+  const span = actualSpan(r, date, now);
+  if (!span) return null;
+  const minutes = Math.max(span.to - plannedEnd(r), span.open ? startDelay(r, date) ?? 0 : 0);
+  return minutes > delayOf(r) ? { minutes, kind: span.open ? "expected" : "actual" } : null;
+};
+
+type Ctx = { settings: Settings; trucks: Truck[] };
+
+/**
+ * Later rows on the truck-day of `rowId` moved back so none overlaps the
+ * delayed block or the row before it. A run moves as a whole.
+ */
+export const propagateDelay = (rows: ScheduledRow[], rowId: ID, { settings, trucks }: Ctx): { rows: ScheduledRow[]; moved: ID[] } => {
+  const from = rows.find((r) => r.id === rowId);
+  if (!from) return { rows, moved: [] };
+  const buffer = Math.max(0, settings.bufferBetweenJobs);
+  const step = Math.max(1, settings.gap);
+  const snapUp = (m: number) => Math.ceil(m / step) * step;
+  const blocked = blockedSlots(trucks.find((t) => t.id === from.truckId), from.day);
+  const date = dateOfDay(planWeekOf(settings), from.day);
+
+  const lane = rows
+    .filter((r) => r.day === from.day && r.truckId === from.truckId && r.startMin >= from.startMin && r.id !== from.id)
+    .sort((a, b) => a.startMin - b.startMin || a.endMin - b.endMin);
+  // Consecutive stops of one run form one unit
+  const units: ScheduledRow[][] = [];
+  for (const r of lane) {
+    const last = units[units.length - 1];
+    if (last && r.runId && last[0].runId === r.runId) last.push(r);
+    else units.push([r]);
+  }
+
+  const shifted = new Map<ID, ScheduledRow>();
+  let prev = from;
+  let end = from.endMin;
+  for (const unit of units) {
+    const start = unit[0].startMin;
+    const len = unit[unit.length - 1].endMin - start;
+    if (unit.some((r) => updatesOn(r, date).length)) {
+      // Already under way: it happens when it happens
+      prev = unit[unit.length - 1];
+      end = Math.max(end, prev.endMin);
+      continue;
+    }
+    const pad = isBreak(prev) || isBreak(unit[0]) || (prev.runId && prev.runId === unit[0].runId) ? 0 : buffer;
+    let st = start;
+    if (st < end + pad) {
+      st = snapUp(end + pad);
+      for (let moved = true; moved; ) {
+        moved = false;
+        for (const b of blocked) {
+          if (st < b.end && st + len > b.start) {
+            st = snapUp(b.end);
+            moved = true;
+          }
+        }
+      }
+    }
+    const delta = st - start;
+    if (delta <= 0) break; // the slack took up the rest of the delay
+    for (const r of unit) shifted.set(r.id, { ...r, startMin: r.startMin + delta, endMin: r.endMin + delta });
+    prev = shifted.get(unit[unit.length - 1].id)!;
+    end = prev.endMin;
+  }
+
+  return {
+    rows: rows.map((r) => shifted.get(r.id) || r),
+    moved: [...shifted.values()].filter((r) => r.startMin !== rows.find((x) => x.id === r.id)!.startMin).map((r) => r.id),
+  };
+};
+
+export type LateRow = { rowId: ID; day: DayKey; truckId: ID; message: string };
+
+/** Job rows among `ids` (all rows when omitted) that end after the day or finish on site after their window */
+export const lateRows = (rows: ScheduledRow[], jobs: Job[], settings: Settings, ids?: ID[]): LateRow[] => {
+  const dayEnd = toMin(settings.endTime);
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const out: LateRow[] = [];
+  for (const r of rows) {
+    if (isBreak(r) || (ids && !ids.includes(r.id))) continue;
+    const j = jobById.get(r.jobId);
+    if (!j) continue;
+    const late = windowBreach(j, r.startMin).late;
+    const problems = [
+      r.endMin > dayEnd ? `ends ${toHHMM(r.endMin)}, after ${settings.endTime}` : "",
+      late > 0 ? `${late} min past its ${j.latest} window` : "",
+    ].filter(Boolean);
+    if (problems.length) out.push({ rowId: r.id, day: r.day, truckId: r.truckId, message: problems.join("; ") });
+  }
+  return out;
+};
+
+export type MoveSuggestion = { rowId: ID; row: ScheduledRow; label: string };
+
+/**
+ * For each late row, the earliest slot on another truck where the job fits
+ * cleanly: within the day, no overlap, on time for its window, not in an
+ * unavailability window, within capacity. Nothing is offered before
+ * `notBefore` (e.g. now, on today's plan). Run stops, and jobs a driver
+ * has already reported on, are left where they are.
+ */
+export const moveSuggestions = (
+  rows: ScheduledRow[],
+  late: LateRow[],
+  { jobs, trucks, settings, notBefore = 0 }: Ctx & { jobs: Job[]; notBefore?: number }
+): MoveSuggestion[] => {
+  const dayStart = toMin(settings.startTime);
+  const dayEnd = toMin(settings.endTime);
+  const buffer = Math.max(0, settings.bufferBetweenJobs);
+  const step = Math.max(1, settings.gap);
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const taken = new Map<string, ScheduledRow[]>(); // truck-day → rows, including earlier suggestions
+  const laneOf = (truckId: ID, day: DayKey) => {
+    const k = `${day}|${truckId}`;
+    if (!taken.has(k)) taken.set(k, rows.filter((r) => r.day === day && r.truckId === truckId));
+    return taken.get(k)!;
+  };
+
+  const out: MoveSuggestion[] = [];
+  for (const l of late) {
+    const r = rows.find((x) => x.id === l.rowId);
+    const j = r && jobById.get(r.jobId);
+    if (!r || !j || r.runId || updatesOn(r, dateOfDay(planWeekOf(settings), r.day)).length) continue;
+    // The overrun and any status taps belonged to the old truck's day
+    const { delay: _overrun, progress: _taps, ...moving } = r;
+    const len = jobDuration(j);
+    const first = Math.ceil(Math.max(dayStart, notBefore) / step) * step;
+    let best: ScheduledRow | undefined;
+    for (const t of trucks) {
+      if (t.id === r.truckId || exceeds(j.size, t.capacity)) continue;
+      const lane = laneOf(t.id, r.day);
+      for (let st = first; st + len <= dayEnd && (!best || st < best.startMin); st += step) {
+        if (windowBreach(j, st).late > 0 || (isHardWindow(j) && windowBreach(j, st).total > 0)) continue;
+        if (blockAt(t, r.day, st, st + len)) continue;
+        if (lane.some((x) => st < x.endMin + (isBreak(x) ? 0 : buffer) && st + len + (isBreak(x) ? 0 : buffer) > x.startMin)) continue;
+        best = { ...moving, truckId: t.id, startMin: st, endMin: st + len };
+        break;
+      }
+    }
+    if (!best) continue;
+    laneOf(best.truckId, best.day).push(best);
+    out.push({ rowId: r.id, row: best, label: `Move to ${trucks.find((t) => t.id === best!.truckId)!.name} at ${toHHMM(best.startMin)}` });
+  }
+  return out;
+};
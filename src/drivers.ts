@@ -0,0 +1,45 @@
+import { segmentsFor, toHHMM, toMin } from "./model";
+import type { DayKey, Driver, DriverAssignment, ID, Job } from "./model";
+
+/** =======================================
+ * Drivers: shift hours and daily limits
+ * Travel and Return segments count as driving; every segment (load,
+ * on-site work and driving) counts as duty.
+ * ======================================= */
+export const drivingMin = (j: Job) =>
+  segmentsFor(j).filter((s) => s.kind === "drive").reduce((sum, s) => sum + s.minutes, 0);
+export const dutyMin = (j: Job) => segmentsFor(j).reduce((sum, s) => sum + s.minutes, 0);
+
+export const driverLoad = (jobs: Job[]) => ({
+  driving: jobs.reduce((sum, j) => sum + drivingMin(j), 0),
+  duty: jobs.reduce((sum, j) => sum + dutyMin(j), 0),
+});
+
+export const driverFor = (drivers: Driver[], assignments: DriverAssignment[], truckId: ID, day: DayKey) => {
+  const a = assignments.find((x) => x.truckId === truckId && x.day === day);
+  return a ? drivers.find((d) => d.id === a.driverId) : undefined;
+};
+
+export const fmtHours = (min: number) => `${Math.floor(min / 60)}h${min % 60 ? String(min % 60).padStart(2, "0") : ""}`;
+
+/** Why `driver` cannot do `items` on `day`, or null when they can */
+export const driverProblem = (
+  driver: Driver | undefined,
+  day: DayKey,
+  items: { job: Job; start: number; end: number }[]
+): string | null => {
+  if (!driver || !items.length) return null;
+  if (driver.daysOff.includes(day)) return `${driver.name} is off on ${day}`;
+  const from = toMin(driver.shiftStart);
+  const to = toMin(driver.shiftEnd);
+  const outside = items.find((x) => x.start < from || x.end > to);
+  if (outside) return `outside ${driver.name}'s shift ${toHHMM(from)}–${toHHMM(to)}`;
+  const load = driverLoad(items.map((x) => x.job));
+  if (load.driving > driver.maxDrivingMin) {
+    return `${driver.name} would drive ${fmtHours(load.driving)} (limit ${fmtHours(driver.maxDrivingMin)})`;
+  }
+  if (load.duty > driver.maxDutyMin) {
+    return `${driver.name} would be on duty ${fmtHours(load.duty)} (limit ${fmtHours(driver.maxDutyMin)})`;
+  }
+  return null;
+};
@@ -0,0 +1,48 @@
+import type { GeoPoint } from "./model";
+
+/** =======================================
+ * Address lookup (OpenStreetMap Nominatim, or any server with its search API)
+ * The address leaves the browser for `endpoint`: public Nominatim unless
+ * ENV_GEOCODE_URL in env.js names another one. Public Nominatim allows one
+ * request a second and wants to know who sends them, so lookups wait their
+ * turn a second apart, repeats come from memory, and ENV_GEOCODE_EMAIL
+ * goes along when set.
+ * ======================================= */
+export const NOMINATIM_URL = "https://nominatim.openstreetmap.org/search";
+export type GeocodeConfig = { endpoint?: string; email?: string };
+
+const GAP_MS = 1000;
+let nextAt = 0;
+const found = new Map<string, GeoPoint | null>();
+
+// Resolves when this lookup may go out
+const turn = () => {
+  const now = Date.now();
+  const at = Math.max(now, nextAt);
+  nextAt = at + GAP_MS;
+  return new Promise((res) => setTimeout(res, at - now));
+};
+
+const endpointOf = (config: GeocodeConfig) => new URL(config.endpoint || NOMINATIM_URL, globalThis.location?.href);
+
+/** Where addresses are sent, for telling the user */
+export const geocodeHost = (config: GeocodeConfig = {}) => endpointOf(config).host;
+
+export const geocodeAddress = async (address: string, config: GeocodeConfig = {}): Promise<GeoPoint | null> => {
+  const q = address.trim();
+  if (!q) return null;
+  const key = q.toLowerCase();
+  if (found.has(key)) return found.get(key)!;
+  await turn();
+  const url = endpointOf(config);
+  url.searchParams.set("format", "json");
+  url.searchParams.set("limit", "1");
+  url.searchParams.set("q", q);
+  if (config.email) url.searchParams.set("email", config.email);
+  const res = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!res.ok) throw new Error(`Address lookup failed (${res.status})`);
+  const hits = (await res.json()) as { lat: string; lon: string }[];
+  const point = hits.length ? { lat: parseFloat(hits[0].lat), lng: parseFloat(hits[0].lon) } : null;
+  found.set(key, point);
+  return point;
+};
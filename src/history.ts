@@ -0,0 +1,100 @@
+import { uid } from "./model";
+import type { ID } from "./model";
+import { STORED_KEYS } from "./schema";
+import type { Stored, StoredKey } from "./schema";
+import { kindOf, toRecords } from "./sync";
+import type { RecordKey } from "./sync";
+
+/** =======================================
+ * Undo / redo history
+ * Pure: each step is a command holding the records (one truck, one job, one
+ * row, the settings, ...) it changed, as they were before and after. Undo
+ * puts back only those records, so edits that arrived from others in the
+ * meantime stay. Typing in a field (quick edits, under the same label, of
+ * records the last step changed) and the follow-up changes an edit
+ * triggers, as the caller marks them, are folded into one step.
+ * ======================================= */
+export type RecordChanges = Record<RecordKey, unknown | null>; // null: not there
+export type HistoryEntry = { id: ID; label: string; at: number; before: RecordChanges; after: RecordChanges };
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+export const HISTORY_LIMIT = 100;
+const TYPING_MS = 1500;
+
+export const KEY_LABELS: Record<StoredKey, string> = {
+  trucks: "trucks",
+  clients: "clients",
+  jobs: "jobs",
+  scheduled: "schedule",
+  settings: "settings",
+  templates: "recurring jobs",
+  drivers: "drivers",
+  assignments: "driver assignments",
+  matrix: "distance table",
+};
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** The records that differ between two states; the shown day is navigation, not an edit */
+export const diffRecords = (a: Stored, b: Stored): { before: RecordChanges; after: RecordChanges } => {
+  const before: RecordChanges = {};
+  const after: RecordChanges = {};
+  const from = toRecords(a);
+  const to = toRecords(b);
+  for (const k of new Set([...from.keys(), ...to.keys()])) {
+    const x = from.get(k) ?? null;
+    const y = to.get(k) ?? null;
+    if (same(x, y)) continue;
+    before[k] = x;
+    after[k] = y;
+  }
+  return { before, after };
+};
+
+/** History with `diff` as a step, named `label` or after what it changed; a `followUp` goes into the last step */
+export const record = (
+  h: History,
+  label: string | null,
+  diff: { before: RecordChanges; after: RecordChanges },
+  followUp = false,
+  now = Date.now()
+): History => {
+  const keys = Object.keys(diff.after);
+  if (!keys.length) return h;
+  const kinds = STORED_KEYS.filter((k) => keys.some((key) => kindOf(key) === k));
+  const name = label || `Edit ${kinds.map((k) => KEY_LABELS[k]).join(", ")}`;
+  const last = h.past[h.past.length - 1];
+  const typing = last && name === last.label && now - last.at < TYPING_MS && keys.every((k) => k in last.after);
+  if (last && (followUp || typing)) {
+    // Records new to the step keep their first "before"
+    const merged: HistoryEntry = {
+      ...last,
+      at: now,
+      before: { ...diff.before, ...last.before },
+      after: { ...last.after, ...diff.after },
+    };
+    return { past: [...h.past.slice(0, -1), merged], future: [] };
+  }
+  const entry: HistoryEntry = {
+    id: uid(),
+    label: name,
+    at: now,
+    before: diff.before,
+    after: diff.after,
+  };
+  return { past: [...h.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+/** The step undone and the records to put back, or null at the start of history */
+export const undo = (h: History): { history: History; changes: RecordChanges; entry: HistoryEntry } | null => {
+  const entry = h.past[h.past.length - 1];
+  if (!entry) return null;
+  return { history: { past: h.past.slice(0, -1), future: [entry, ...h.future] }, changes: entry.before, entry };
+};
+
+export const redo = (h: History): { history: History; changes: RecordChanges; entry: HistoryEntry } | null => {
+  const entry = h.future[0];
+  if (!entry) return null;
+  return { history: { past: [...h.past, entry], future: h.future.slice(1) }, changes: entry.after, entry };
+};
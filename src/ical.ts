@@ -0,0 +1,126 @@
+import { DAYS, dateOfDay, isBreak, segmentsFor, toHHMM } from "./model";
+import type { DayKey, ID, ScheduledRow } from "./model";
+import type { ExportCtx } from "./tables";
+
+/** =======================================
+ * iCalendar export (RFC 5545)
+ * Pure: one VEVENT per scheduled row of the planned week. UIDs come from
+ * the row id and its date, so importing a newer file updates the events
+ * of an older one instead of adding copies.
+ * ======================================= */
+export type CalendarScope = { kind: "fleet" } | { kind: "truck"; truckId: ID } | { kind: "client"; clientId: ID };
+
+const PRODID = "-//truck-scheduler//Schedule//EN";
+
+// TEXT values: backslash, ";", "," and line breaks are escaped
+const esc = (v: string) => v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+const utf8 = new TextEncoder();
+const fold = (line: string) => {
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = utf8.encode(ch).length;
+    if (bytes + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  return [...out, cur].join("\r\n ");
+};
+
+// Floating local time: the event shows at the planned clock time wherever it is opened
+const localStamp = (iso: string, min: number) => `${iso.replace(/-/g, "")}T${toHHMM(min).replace(":", "")}00`;
+const utcStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const inScope = (r: ScheduledRow, scope: CalendarScope, ctx: ExportCtx) =>
+  scope.kind === "fleet" ||
+  (scope.kind === "truck" && r.truckId === scope.truckId) ||
+  (scope.kind === "client" && !isBreak(r) && ctx.jobOf(r)?.clientId === scope.clientId);
+
+const eventLines = (r: ScheduledRow, ctx: ExportCtx, stamp: string, sequence: number): string[] => {
+  const date = dateOfDay(ctx.weekOf, r.day);
+  const truck = ctx.truckById.get(r.truckId)?.name || "";
+  const driver = ctx.driverName(r.truckId, r.day);
+  const head = [
+    "BEGIN:VEVENT",
+    // The date is part of the UID: the same row planned in another week is another event
+    `UID:${r.id}-${date.replace(/-/g, "")}@truck-scheduler`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${sequence}`,
+    `DTSTART:${localStamp(date, r.startMin)}`,
+    `DTEND:${localStamp(date, r.endMin)}`,
+  ];
+  if (isBreak(r)) {
+    return [
+      ...head,
+      `SUMMARY:${esc(`${ctx.breakLabel(r)} · ${truck}`)}`,
+      `DESCRIPTION:${esc([`Truck: ${truck}`, driver && `Driver: ${driver}`].filter(Boolean).join("\n"))}`,
+      "CATEGORIES:Break",
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    ];
+  }
+  const j = ctx.jobOf(r)!;
+  const client = j.clientId ? ctx.clientById.get(j.clientId) : undefined;
+  let t = r.startMin;
+  const segments = segmentsFor(j).map((sg) => {
+    const line = `${toHHMM(t)}–${toHHMM(t + sg.minutes)} ${sg.label} (${sg.minutes} min)`;
+    t += sg.minutes;
+    return line;
+  });
+  const description = [
+    `${j.type}${client ? ` for ${client.name}` : ""}: ${j.title}`,
+    `Truck: ${truck}`,
+    ...(driver ? [`Driver: ${driver}`] : []),
+    ...(r.runId ? ["Stop of a multi-stop run"] : []),
+    "",
+    ...segments,
+    ...(j.notes ? ["", `Notes: ${j.notes}`] : []),
+  ];
+  return [
+    ...head,
+    `SUMMARY:${esc(`${j.type} · ${client?.name || j.title} · ${truck}`)}`,
+    `DESCRIPTION:${esc(description.join("\n"))}`,
+    ...(client?.address ? [`LOCATION:${esc(client.address)}`] : []),
+    ...(client?.location ? [`GEO:${client.location.lat.toFixed(6)};${client.location.lng.toFixed(6)}`] : []),
+    `CATEGORIES:${esc(j.type)}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+  ];
+};
+
+/** A VCALENDAR with the rows of `days` in `scope` */
+export const buildCalendar = (
+  rows: ScheduledRow[],
+  days: readonly DayKey[],
+  scope: CalendarScope,
+  name: string,
+  ctx: ExportCtx,
+  now = new Date()
+): string => {
+  const stamp = utcStamp(now);
+  // Later exports carry a higher SEQUENCE, so calendar apps take them as updates
+  const sequence = Math.max(0, Math.floor((now.getTime() - Date.UTC(2024, 0, 1)) / 60000));
+  const events = rows
+    .filter((r) => days.includes(r.day) && (isBreak(r) || ctx.jobOf(r)) && inScope(r, scope, ctx))
+    .sort((a, b) => DAYS.indexOf(a.day) - DAYS.indexOf(b.day) || a.startMin - b.startMin)
+    .flatMap((r) => eventLines(r, ctx, stamp, sequence));
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${esc(name)}`,
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(fold)
+    .join("\r\n") + "\r\n";
+};
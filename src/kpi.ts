@@ -0,0 +1,181 @@
+import { hasWindow, isBreak, isJobOn, segmentsFor, toMin, windowBreach } from "./model";
+import type { DayKey, ID, Job, ScheduledRow, Settings, Truck } from "./model";
+import { blockedSlots } from "./availability";
+import { delayOf } from "./delays";
+import { fmtHours } from "./drivers";
+import { stopJobsByRow } from "./runs";
+import type { TravelCtx } from "./travel";
+
+/** =======================================
+ * Fleet KPIs
+ * Pure: how well the trucks are used over one day or the week, from the
+ * scheduled rows. A truck is available for the startTime–endTime window
+ * of every day, less its unavailability; work outside the window does not
+ * count. Driving and loading come from the job segments; a recorded
+ * overrun is counted on its own. On time means the planned start keeps the
+ * job inside its window.
+ * ======================================= */
+export type TruckKpi = {
+  truckId: ID;
+  name: string;
+  available: number; // minutes
+  busy: number;      // job minutes inside the window, overruns included
+  breaks: number;
+  utilisation: number; // busy / available, 0–1
+  idle: number;        // minutes between blocks beyond the buffer
+  gaps: number;        // gaps longer than the buffer
+  longestGap: number;
+  driving: number;
+  loading: number; // loading, offloading and other work on site or at the depot
+  overrun: number;
+  deliveries: number;
+  collections: number;
+};
+
+export type FleetKpi = {
+  days: DayKey[];
+  trucks: TruckKpi[];
+  requested: number;   // job-days asked for
+  unscheduled: number; // of those, not on any truck
+  windowed: number;    // scheduled job rows with a time window
+  onTime: number;
+  onTimeRate: number | null; // null until some job has a window
+  utilisation: number;
+};
+
+export type KpiInput = {
+  scheduled: ScheduledRow[];
+  jobs: Job[];
+  trucks: Truck[];
+  settings: Settings;
+  days: DayKey[];
+  travel?: TravelCtx;
+};
+
+export const fleetKpis = ({ scheduled, jobs, trucks, settings, days, travel }: KpiInput): FleetKpi => {
+  const dayStart = toMin(settings.startTime);
+  const dayEnd = toMin(settings.endTime);
+  const buffer = Math.max(0, settings.bufferBetweenJobs);
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const rows = scheduled.filter(
+    (r) => days.includes(r.day) && r.truckId && r.startMin != null && r.endMin != null && (isBreak(r) || jobById.has(r.jobId))
+  );
+  const stopJob = stopJobsByRow(rows, jobById, travel);
+  const jobOf = (r: ScheduledRow) => stopJob.get(r.id) || jobById.get(r.jobId)!;
+  const inWindow = (st: number, en: number) => Math.max(0, Math.min(en, dayEnd) - Math.max(st, dayStart));
+
+  const perTruck = trucks.map((t): TruckKpi => {
+    const k: TruckKpi = {
+      truckId: t.id,
+      name: t.name,
+      available: 0,
+      busy: 0,
+      breaks: 0,
+      utilisation: 0,
+      idle: 0,
+      gaps: 0,
+      longestGap: 0,
+      driving: 0,
+      loading: 0,
+      overrun: 0,
+      deliveries: 0,
+      collections: 0,
+    };
+    for (const day of days) {
+      const blocked = blockedSlots(t, day).reduce((sum, b) => sum + inWindow(b.start, b.end), 0);
+      k.available += Math.max(0, dayEnd - dayStart - blocked);
+      const list = rows.filter((r) => r.truckId === t.id && r.day === day).sort((a, b) => a.startMin - b.startMin);
+      for (let i = 0; i < list.length; i++) {
+        const r = list[i];
+        if (i > 0) {
+          const gap = r.startMin - Math.max(...list.slice(0, i).map((x) => x.endMin));
+          if (gap > buffer) {
+            k.idle += gap - buffer;
+            k.gaps++;
+            k.longestGap = Math.max(k.longestGap, gap);
+          }
+        }
+        if (isBreak(r)) {
+          k.breaks += inWindow(r.startMin, r.endMin);
+          continue;
+        }
+        const j = jobOf(r);
+        k.busy += inWindow(r.startMin, r.endMin);
+        for (const sg of segmentsFor(j)) k[sg.kind === "drive" ? "driving" : "loading"] += sg.minutes;
+        k.overrun += delayOf(r);
+        if (j.type === "Delivery") k.deliveries++;
+        else k.collections++;
+      }
+    }
+    k.utilisation = k.available ? k.busy / k.available : 0;
+    return k;
+  });
+
+  let requested = 0;
+  let unscheduled = 0;
+  for (const j of jobs) {
+    for (const day of days) {
+      if (!isJobOn(j, day)) continue;
+      requested++;
+      if (!rows.some((r) => r.jobId === j.id && r.day === day)) unscheduled++;
+    }
+  }
+  const windowed = rows.filter((r) => !isBreak(r) && hasWindow(jobOf(r)));
+  const onTime = windowed.filter((r) => windowBreach(jobOf(r), r.startMin).total === 0).length;
+  const available = perTruck.reduce((s, k) => s + k.available, 0);
+  return {
+    days,
+    trucks: perTruck,
+    requested,
+    unscheduled,
+    windowed: windowed.length,
+    onTime,
+    onTimeRate: windowed.length ? onTime / windowed.length : null,
+    utilisation: available ? perTruck.reduce((s, k) => s + k.busy, 0) / available : 0,
+  };
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+/** The dashboard as a table: one line per truck, then the fleet totals */
+export const kpiTable = (k: FleetKpi): (string | number)[][] => {
+  const sum = (f: (t: TruckKpi) => number) => k.trucks.reduce((s, t) => s + f(t), 0);
+  const line = (name: string, t: Omit<TruckKpi, "truckId" | "name">) => [
+    name,
+    fmtHours(t.available),
+    fmtHours(t.busy),
+    pct(t.utilisation),
+    fmtHours(t.idle),
+    t.gaps,
+    t.longestGap,
+    fmtHours(t.driving),
+    fmtHours(t.loading),
+    t.overrun,
+    fmtHours(t.breaks),
+    t.deliveries,
+    t.collections,
+  ];
+  return [
+    ["Truck", "Available", "Busy", "Utilisation", "Idle", "Idle gaps", "Longest gap (min)", "Driving", "Loading", "Overrun (min)", "Breaks", "Deliveries", "Collections"],
+    ...k.trucks.map((t) => line(t.name, t)),
+    line("Fleet", {
+      available: sum((t) => t.available),
+      busy: sum((t) => t.busy),
+      utilisation: k.utilisation,
+      idle: sum((t) => t.idle),
+      gaps: sum((t) => t.gaps),
+      longestGap: Math.max(0, ...k.trucks.map((t) => t.longestGap)),
+      driving: sum((t) => t.driving),
+      loading: sum((t) => t.loading),
+      overrun: sum((t) => t.overrun),
+      breaks: sum((t) => t.breaks),
+      deliveries: sum((t) => t.deliveries),
+      collections: sum((t) => t.collections),
+    }),
+    [],
+    ["Days", k.days.join(" ")],
+    ["Job-days requested", k.requested],
+    ["Unscheduled", k.unscheduled],
+    ["On time", k.onTimeRate == null ? "no time windows" : `${k.onTime} of ${k.windowed} (${pct(k.onTimeRate)})`],
+  ];
+};
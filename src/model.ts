@@ -0,0 +1,245 @@
+/** =======================================
+ * Helpers & constants
+ * ======================================= */
+export type ID = string;
+export const DAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+export type DayKey = typeof DAYS[number];
+
+export const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n));
+export const pad2 = (n: number) => (n < 10 ? "0" + n : "" + n);
+export const toMin = (hhmm: string) => {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!m) return 0;
+  return clamp(parseInt(m[1]) * 60 + parseInt(m[2]), 0, 24 * 60);
+};
+export const toHHMM = (min: number) => {
+  const m = clamp(Math.round(min), 0, 24 * 60 - 1);
+  return `${pad2((m / 60) | 0)}:${pad2(m % 60)}`;
+};
+export const uid = () => Math.random().toString(36).slice(2, 10);
+
+// Dates are ISO "YYYY-MM-DD" strings, handled in UTC so DST never shifts a day
+export const addDays = (iso: string, n: number) => {
+  const d = new Date(iso + "T00:00:00Z");
+  d.setUTCDate(d.getUTCDate() + n);
+  return d.toISOString().slice(0, 10);
+};
+export const mondayOf = (iso: string) => {
+  const wd = new Date(iso + "T00:00:00Z").getUTCDay(); // 0 = Sunday
+  return addDays(iso, -((wd + 6) % 7));
+};
+export const todayISO = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+};
+export const isISODate = (v?: string) => !!v && /^\d{4}-\d{2}-\d{2}$/.test(v);
+export const dateOfDay = (weekOf: string, day: DayKey) => addDays(weekOf, DAYS.indexOf(day));
+// The Monday being planned; this week until one is picked
+export const planWeekOf = (s: { weekOf?: string }) => s.weekOf || mondayOf(todayISO());
+
+/** =======================================
+ * Data models
+ * ======================================= */
+// How much is carried; a dimension left out is not limited / not counted
+export type LoadSize = { weightKg?: number; pallets?: number; volumeM3?: number };
+
+// A truck out of service on a day (workshop, breakdown, ...)
+export type Unavailability = { id: ID; day: DayKey; from: string; to: string; reason: string }; // from/to HH:MM
+export type Truck = { id: ID; name: string; capacity?: LoadSize; unavailable?: Unavailability[] };
+// Where a site is; travel minutes are computed from these when known
+export type GeoPoint = { lat: number; lng: number };
+export type Site = { address?: string; location?: GeoPoint };
+
+export type Client = {
+  id: ID;
+  name: string;
+  address?: string;
+  location?: GeoPoint;
+  notes?: string;
+  defaultTravelMin?: number;  // labeled below
+  defaultOnsiteMin?: number;  // labeled below
+};
+
+export type JobType = "Delivery" | "Collection";
+export type WindowMode = "hard" | "soft"; // hard: never place outside; soft: place, but flag
+export type Job = {
+  id: ID;
+  type: JobType;
+  title: string;
+  clientId: ID | null;
+
+  // Durations (minutes)
+  loadMin: number;         // Delivery: depot loading; Collection: off-site loading
+  travelMin: number;       // Travel to site
+  onsiteMin: number;       // Delivery: offload; Collection: on-site loading
+  returnTravelMin: number; // Collection: travel back to depot (Delivery often 0)
+  travelManual?: boolean;  // travel minutes typed in; not recomputed from locations
+
+  earliest?: string; // HH:MM, earliest arrival on site
+  latest?: string;   // HH:MM, latest finish on site
+  windowMode?: WindowMode; // default "soft"
+
+  size?: LoadSize; // what the job carries
+
+  days?: DayKey[]; // requested day(s); the job is done once on each
+
+  truckId?: ID | null; // preferred truck (optional)
+  notes?: string;
+
+  // Set on instances generated from a JobTemplate
+  templateId?: ID;
+  occurrence?: string; // ISO date
+  detached?: boolean;  // edited as "this occurrence"; regeneration leaves it alone
+};
+
+// Fields a template copies into each instance
+export type TemplateJob = Omit<Job, "id" | "days" | "templateId" | "occurrence" | "detached">;
+export type JobTemplate = {
+  id: ID;
+  job: TemplateJob;
+  days: DayKey[];      // weekly pattern
+  startDate: string;   // ISO date, inclusive
+  endDate?: string;    // ISO date, inclusive; open-ended when missing
+  skipDates: string[]; // ISO dates with no instance
+};
+
+export type Driver = {
+  id: ID;
+  name: string;
+  shiftStart: string;  // HH:MM
+  shiftEnd: string;    // HH:MM
+  daysOff: DayKey[];
+  maxDrivingMin: number; // per day
+  maxDutyMin: number;    // per day; driving counts as duty too
+};
+// Who drives a truck on a day
+export type DriverAssignment = { truckId: ID; day: DayKey; driverId: ID };
+
+export type ScheduledRow = {
+  id: ID;
+  day: DayKey;
+  jobId: ID; // "" for breaks
+  truckId: ID;
+  startMin: number;
+  endMin: number;
+  pinned?: boolean; // the optimizer must not move it
+  kind?: "job" | "break"; // default "job"
+  ruleId?: ID; // break: the BreakRule it satisfies
+  runId?: ID;  // job rows sharing a runId are stops of one multi-stop run, in time order
+  progress?: StatusUpdate[]; // reported by the driver, oldest first
+  delay?: RowDelay; // overrun, already included in endMin
+};
+// Minutes a row runs over its plan: "actual" once it happened, "expected" when reported ahead
+export type RowDelay = { minutes: number; kind: "actual" | "expected"; reason?: string };
+// How a job is going on the road; each tap is stored with the moment it happened
+export type JobStatus = "en_route" | "arrived" | "working" | "completed" | "failed";
+export type StatusUpdate = { status: JobStatus; at: string; by?: string; reason?: string }; // at: ISO timestamp
+export const JOB_STATUSES: JobStatus[] = ["en_route", "arrived", "working", "completed", "failed"];
+export const isBreak = (r: ScheduledRow) => r.kind === "break";
+
+// Rest breaks: after N minutes of driving, or once inside a time window (e.g. lunch)
+export type BreakRule =
+  | { id: ID; label: string; minutes: number; kind: "driving"; afterDrivingMin: number }
+  | { id: ID; label: string; minutes: number; kind: "window"; from: string; to: string };
+
+export type Settings = {
+  startTime: string;
+  endTime: string;
+  gap: number;
+  bufferBetweenJobs: number;
+  activeDay: DayKey;
+  weekOf?: string; // ISO date of the Monday being planned
+  breakRules?: BreakRule[];
+  depot?: Site;
+  travel?: TravelModel;
+};
+
+// Straight-line distance at an average speed, unless the distance matrix has the leg
+export type TravelModel = { speedKmh: number; useMatrix: boolean };
+
+export const DEFAULT_SETTINGS: Settings = {
+  startTime: "07:00",
+  endTime: "18:00",
+  gap: 15,
+  bufferBetweenJobs: 10,
+  activeDay: "Mon",
+};
+
+/** =======================================
+ * Job days
+ * ======================================= */
+export const jobDays = (j: Job): DayKey[] => j.days ?? [];
+export const isJobOn = (j: Job, day: DayKey) => jobDays(j).includes(day);
+export const jobsOn = (jobs: Job[], day: DayKey) => jobs.filter((j) => isJobOn(j, day));
+
+// Jobs saved before they had days get the days they are scheduled on, else `fallback`
+export const withJobDays = (jobs: Job[], scheduled: ScheduledRow[], fallback: DayKey): Job[] =>
+  jobs.map((j) => {
+    if (j.days) return j;
+    const onSchedule = DAYS.filter((d) => scheduled.some((r) => r.jobId === j.id && r.day === d));
+    return { ...j, days: onSchedule.length ? onSchedule : [fallback] };
+  });
+
+/** =======================================
+ * Durations & segments
+ * ======================================= */
+export const jobDuration = (j: Job) => {
+  if (!j) return 0;
+  if (j.type === "Delivery") {
+    // Delivery: depot Load + Travel to site + Offload + optional Return
+    return j.loadMin + j.travelMin + j.onsiteMin + (j.returnTravelMin || 0);
+  }
+  // Collection: Off-site Load + Travel to site + On-site load + Return
+  return j.loadMin + j.travelMin + j.onsiteMin + (j.returnTravelMin || 0);
+};
+
+// Segments (classic colors)
+// kind: "drive" counts as driving time for the driver, "work" as other duty
+export type Segment = { label: string; color: string; minutes: number; kind: "drive" | "work" };
+export const segmentsFor = (j: Job): Segment[] => {
+  if (!j) return [];
+  if (j.type === "Delivery") {
+    return ([
+      { label: "Load",    color: "bg-sky-500",     minutes: j.loadMin,                kind: "work" },
+      { label: "Travel",  color: "bg-blue-500",    minutes: j.travelMin,              kind: "drive" },
+      { label: "Offload", color: "bg-emerald-500", minutes: j.onsiteMin,              kind: "work" },
+      { label: "Return",  color: "bg-indigo-400",  minutes: j.returnTravelMin || 0,   kind: "drive" },
+    ] as Segment[]).filter(seg => seg.minutes > 0);
+  } else {
+    return ([
+      { label: "Off-site load", color: "bg-rose-500",   minutes: j.loadMin,              kind: "work" },
+      { label: "Travel",        color: "bg-orange-500", minutes: j.travelMin,            kind: "drive" },
+      { label: "On-site",       color: "bg-amber-500",  minutes: j.onsiteMin,            kind: "work" },
+      { label: "Return",        color: "bg-orange-400", minutes: j.returnTravelMin || 0, kind: "drive" },
+    ] as Segment[]).filter(seg => seg.minutes > 0);
+  }
+};
+
+/** =======================================
+ * Time windows
+ * The window applies to the on-site part of a job: arrival (after load
+ * and travel) must not be before `earliest`, and the on-site work must be
+ * finished by `latest`.
+ * ======================================= */
+export const isHHMM = (v?: string) => !!v && /^(\d{1,2}):(\d{2})$/.test(v.trim());
+export const onsiteOffset = (j: Job) => j.loadMin + j.travelMin;
+export const jobWindow = (j: Job) => ({
+  from: isHHMM(j.earliest) ? toMin(j.earliest!) : null,
+  to: isHHMM(j.latest) ? toMin(j.latest!) : null,
+});
+export const hasWindow = (j: Job) => {
+  const w = jobWindow(j);
+  return w.from != null || w.to != null;
+};
+// Minutes early / late if job `j` starts at `st`
+export const windowBreach = (j: Job, st: number) => {
+  const w = jobWindow(j);
+  const arrive = st + onsiteOffset(j);
+  const leave = arrive + j.onsiteMin;
+  const early = w.from != null ? Math.max(0, w.from - arrive) : 0;
+  const late = w.to != null ? Math.max(0, leave - w.to) : 0;
+  return { early, late, total: early + late };
+};
+export const isHardWindow = (j: Job) => j.windowMode === "hard";
+export const breachLabel = (b: { early: number; late: number }) =>
+  b.early > 0 ? `${b.early} min early` : b.late > 0 ? `${b.late} min late` : "";
@@ -0,0 +1,401 @@
+import {
+  DAYS,
+  dateOfDay,
+  isBreak,
+  isHardWindow,
+  isJobOn,
+  jobDuration,
+  jobWindow,
+  onsiteOffset,
+  planWeekOf,
+  toMin,
+  uid,
+  windowBreach,
+} from "./model";
+import type { BreakRule, DayKey, Driver, DriverAssignment, ID, Job, ScheduledRow, Settings, Truck } from "./model";
+import { capacityProblem, exceeds } from "./capacity";
+import { blockedSlots } from "./availability";
+import { breakDue, breakId, breakRow, freshBreakState, stepBreakState } from "./breaks";
+import { driverFor, driverProblem } from "./drivers";
+import { bestStopOrder, retimeRun, runsOf, stopJobsByRow } from "./runs";
+import { updatesOn } from "./status";
+import type { TravelCtx } from "./travel";
+
+/** =======================================
+ * Optimizing scheduler
+ * Pure: plans one day from jobs, trucks and settings. Only jobs requested on
+ * the day are planned. Pinned rows (and rows of jobs not requested that day)
+ * stay where they are, rows on other days are untouched, everything else on
+ * the day is re-planned around the trucks' unavailability windows. Multi-stop
+ * runs keep their truck and start time; only the order of their stops changes.
+ * Deterministic: the same input always gives the same times and trucks;
+ * only rows that did not exist before get fresh ids.
+ * ======================================= */
+export type PlanScore = {
+  placed: number;
+  unplaced: number;
+  lateness: number; // minutes outside soft windows (early + late)
+  makespan: number; // end of the last job (minutes from midnight)
+  idle: number;     // minutes between jobs beyond the buffer
+  total: number;    // weighted cost, lower is better
+};
+
+export type PlanInput = {
+  jobs: Job[];
+  trucks: Truck[];
+  settings: Settings;
+  scheduled: ScheduledRow[];
+  day: DayKey;
+  drivers?: Driver[];
+  assignments?: DriverAssignment[];
+  travel?: TravelCtx; // stop-to-stop travel in multi-stop runs
+};
+
+export type PlanResult = {
+  rows: ScheduledRow[]; // the full schedule, all days
+  unplaced: ID[];
+  score: PlanScore;
+};
+
+const WEIGHTS = {
+  unplaced: 10000,
+  lateness: 10,
+  makespan: 1,
+  idle: 0.5,
+  finish: 0.05, // sum of truck end times; nudges work onto idle trucks
+};
+const MAX_PASSES = 50;
+
+type Ctx = { dayStart: number; dayEnd: number; step: number; buffer: number; rules: BreakRule[] };
+type Slot = { start: number; end: number; job?: Job; ruleId?: ID; runId?: ID; blocked?: boolean }; // blocked: truck unavailable
+type Timed = { job: Job; start: number; end: number };
+type Lane = { day: DayKey; truck?: Truck; driver?: Driver }; // one truck-day
+type TruckEval = {
+  placed: Timed[];
+  breaks: Slot[]; // inserted by the planner
+  failed: Job[];
+  lateness: number;
+  idle: number;
+  end: number;
+  cost: number;
+};
+
+const ctxFor = (settings: Settings): Ctx => ({
+  dayStart: toMin(settings.startTime),
+  dayEnd: toMin(settings.endTime),
+  step: Math.max(1, settings.gap),
+  buffer: Math.max(0, settings.bufferBetweenJobs),
+  rules: settings.breakRules ?? [],
+});
+
+// Idle minutes between consecutive slots, beyond the buffer
+const idleBetween = (slots: Slot[], buffer: number) => {
+  const sorted = [...slots].sort((a, b) => a.start - b.start);
+  let idle = 0;
+  for (let i = 1; i < sorted.length; i++) idle += Math.max(0, sorted[i].start - sorted[i - 1].end - buffer);
+  return idle;
+};
+
+// Give each job in `seq` a start time, in order, around the fixed (pinned) slots,
+// inserting rest breaks where the break rules call for them
+const timeSequence = (seq: Job[], fixed: Slot[], ctx: Ctx, lane: Lane): TruckEval => {
+  const snapUp = (m: number) => Math.ceil(m / ctx.step) * ctx.step;
+  const fixedInOrder = [...fixed].sort((a, b) => a.start - b.start);
+  const placed: Timed[] = [];
+  const breaks: Slot[] = [];
+  const failed: Job[] = [];
+  let cur = lane.driver ? Math.max(ctx.dayStart, toMin(lane.driver.shiftStart)) : ctx.dayStart;
+  let rest = freshBreakState();
+  let consumed = 0; // fixed slots already accounted for in `rest`
+
+  // First start >= `from` where `len` minutes clear every fixed and inserted slot;
+  // `pad` keeps away from fixed jobs only, not from breaks or unavailability
+  const clearOf = (from: number, len: number, pad: number) => {
+    let st = snapUp(from);
+    for (let moved = true; moved; ) {
+      moved = false;
+      for (const f of [...fixed, ...breaks]) {
+        const p = f.job && !f.ruleId ? pad : 0;
+        if (st < f.end + p && st + len + p > f.start) {
+          st = snapUp(f.end + p);
+          moved = true;
+        }
+      }
+    }
+    return st;
+  };
+  const consumeFixedUntil = (t: number) => {
+    while (consumed < fixedInOrder.length && fixedInOrder[consumed].end <= t) {
+      const f = fixedInOrder[consumed++];
+      if (!f.blocked) stepBreakState(ctx.rules, rest, f);
+    }
+  };
+
+  for (const j of seq) {
+    const dur = jobDuration(j);
+    const from = jobWindow(j).from;
+    const snapshot = { cur, rest: { drivingSince: rest.drivingSince, windowsTaken: new Set(rest.windowsTaken) }, consumed, breaks: breaks.length };
+    let st = clearOf(Math.max(cur, from != null ? from - onsiteOffset(j) : ctx.dayStart), dur, ctx.buffer);
+    consumeFixedUntil(st);
+    for (let n = 0; n < ctx.rules.length; n++) {
+      const due = breakDue(ctx.rules, rest, cur, j, st);
+      if (!due) break;
+      const bs = clearOf(due.start, due.rule.minutes, 0);
+      const b = { start: bs, end: bs + due.rule.minutes, ruleId: due.rule.id };
+      breaks.push(b);
+      stepBreakState(ctx.rules, rest, b);
+      cur = Math.max(cur, b.end);
+      st = clearOf(Math.max(cur, from != null ? from - onsiteOffset(j) : ctx.dayStart), dur, ctx.buffer);
+      consumeFixedUntil(st);
+    }
+    if (
+      st + dur > ctx.dayEnd ||
+      (isHardWindow(j) && windowBreach(j, st).total > 0) ||
+      overCapacity(lane.truck, fixed, placed, j, st) ||
+      driverProblem(lane.driver, lane.day, [...fixed.filter((f): f is Timed => !!f.job), ...placed, { job: j, start: st, end: st + dur }])
+    ) {
+      // Undo breaks inserted for this job
+      cur = snapshot.cur;
+      rest = snapshot.rest;
+      consumed = snapshot.consumed;
+      breaks.length = snapshot.breaks;
+      failed.push(j);
+      continue;
+    }
+    placed.push({ job: j, start: st, end: st + dur });
+    stepBreakState(ctx.rules, rest, { start: st, end: st + dur, job: j });
+    cur = st + dur + ctx.buffer;
+  }
+
+  let lateness = 0;
+  for (const p of placed) lateness += windowBreach(p.job, p.start).total;
+  const all: Slot[] = [...fixed.filter((f) => !f.blocked), ...placed, ...breaks];
+  const idle = idleBetween(all, ctx.buffer);
+  const end = all.reduce((m, x) => Math.max(m, x.end), ctx.dayStart);
+  const cost =
+    failed.length * WEIGHTS.unplaced +
+    lateness * WEIGHTS.lateness +
+    idle * WEIGHTS.idle +
+    (end - ctx.dayStart) * WEIGHTS.finish;
+  return { placed, breaks, failed, lateness, idle, end, cost };
+};
+
+// Would adding `j` at `st` push the truck's running load over capacity?
+const overCapacity = (truck: Truck | undefined, fixed: Slot[], placed: Timed[], j: Job, st: number) => {
+  if (!truck?.capacity) return false;
+  const ordered: { start: number; job?: Job; runId?: ID }[] = [...fixed.filter((f) => f.job), ...placed, { start: st, job: j }];
+  ordered.sort((a, b) => a.start - b.start);
+  return capacityProblem(truck, ordered.map((x) => x.job!), ordered.map((x) => x.runId)) != null;
+};
+
+const totalCost = (evals: TruckEval[], ctx: Ctx) =>
+  evals.reduce((sum, e) => sum + e.cost, 0) +
+  (evals.reduce((m, e) => Math.max(m, e.end), ctx.dayStart) - ctx.dayStart) * WEIGHTS.makespan;
+
+/** Score any plan for `day`, so the current schedule and a proposal compare like for like */
+export const scorePlan = (rows: ScheduledRow[], jobs: Job[], settings: Settings, day: DayKey, travel?: TravelCtx): PlanScore => {
+  const ctx = ctxFor(settings);
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const dayRows = rows.filter((r) => r.day === day && (isBreak(r) || jobById.has(r.jobId)));
+  const jobRows = dayRows.filter((r) => !isBreak(r));
+  const stopJob = stopJobsByRow(jobRows, jobById, travel);
+  const byTruck = new Map<ID, ScheduledRow[]>();
+  for (const r of dayRows) byTruck.set(r.truckId, [...(byTruck.get(r.truckId) || []), r]);
+
+  let lateness = 0;
+  let idle = 0;
+  let finish = 0;
+  let makespan = ctx.dayStart;
+  for (const r of jobRows) lateness += windowBreach(stopJob.get(r.id) || jobById.get(r.jobId)!, r.startMin).total;
+  for (const list of byTruck.values()) {
+    idle += idleBetween(list.map((r) => ({ start: r.startMin, end: r.endMin })), ctx.buffer);
+    const end = list.reduce((m, r) => Math.max(m, r.endMin), ctx.dayStart);
+    finish += end - ctx.dayStart;
+    makespan = Math.max(makespan, end);
+  }
+  const placedIds = new Set(jobRows.map((r) => r.jobId));
+  const placed = placedIds.size;
+  const unplaced = jobs.filter((j) => isJobOn(j, day) && !placedIds.has(j.id)).length;
+  const total =
+    unplaced * WEIGHTS.unplaced +
+    lateness * WEIGHTS.lateness +
+    idle * WEIGHTS.idle +
+    finish * WEIGHTS.finish +
+    (makespan - ctx.dayStart) * WEIGHTS.makespan;
+  return { placed, unplaced, lateness, makespan, idle, total: Math.round(total) };
+};
+
+/** Plan `day`: cheapest insertion, then relocate moves until nothing improves */
+export const optimizeDay = ({ jobs, trucks, settings, scheduled, day, drivers = [], assignments = [], travel }: PlanInput): PlanResult => {
+  const ctx = ctxFor(settings);
+  const truckIds = trucks.map((t) => t.id);
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+
+  // Runs: best stop order from the same start (pinned runs stay as they are)
+  const runRows: ScheduledRow[] = [];
+  for (const [runId, list] of runsOf(scheduled.filter((r) => r.day === day && jobById.has(r.jobId)))) {
+    if (list.some((r) => r.pinned)) {
+      runRows.push(...list);
+      continue;
+    }
+    const best = bestStopOrder(list.map((r) => jobById.get(r.jobId)!), list[0].startMin, travel);
+    const order = best.map((j) => list.find((r) => r.jobId === j.id)!.id);
+    runRows.push(...runsOf(retimeRun(list, runId, jobById, travel, { order })).get(runId)!);
+  }
+  const stopJob = stopJobsByRow(runRows, jobById, travel);
+
+  // Breaks are re-planned too, unless the dispatcher placed them (pinned);
+  // jobs a driver has reported on this week, or that run late, stay where they are
+  const date = dateOfDay(planWeekOf(settings), day);
+  const pinned = scheduled.filter((r) => {
+    if (r.day !== day) return false;
+    if (isBreak(r)) return !!r.pinned;
+    if (r.runId) return false;
+    const j = jobById.get(r.jobId);
+    return !!j && (r.pinned || updatesOn(r, date).length > 0 || !!r.delay || !isJobOn(j, day));
+  });
+  const pinnedJobIds = new Set([...pinned, ...runRows].map((r) => r.jobId));
+  const fixed: Record<ID, Slot[]> = {};
+  for (const id of truckIds) fixed[id] = [];
+  for (const r of pinned) {
+    if (fixed[r.truckId]) fixed[r.truckId].push({ start: r.startMin, end: r.endMin, job: jobById.get(r.jobId), ruleId: r.ruleId });
+  }
+  for (const r of runRows) {
+    if (fixed[r.truckId]) fixed[r.truckId].push({ start: r.startMin, end: r.endMin, job: stopJob.get(r.id), runId: r.runId });
+  }
+  for (const t of trucks) {
+    for (const b of blockedSlots(t, day)) fixed[t.id].push({ start: b.start, end: b.end, blocked: true });
+  }
+
+  const truckById = new Map(trucks.map((t) => [t.id, t]));
+  const lanes: Record<ID, Lane> = {};
+  for (const t of trucks) lanes[t.id] = { day, truck: t, driver: driverFor(drivers, assignments, t.id, day) };
+  const allowed = (j: Job) =>
+    (j.truckId && fixed[j.truckId] ? [j.truckId] : truckIds).filter((id) => !exceeds(j.size, truckById.get(id)!.capacity));
+  const todo = jobs
+    .filter((j) => isJobOn(j, day) && !pinnedJobIds.has(j.id))
+    .sort((a, b) => {
+      const wa = jobWindow(a);
+      const wb = jobWindow(b);
+      return (
+        (wa.to ?? Infinity) - (wb.to ?? Infinity) ||
+        (wa.from ?? -1) - (wb.from ?? -1) ||
+        jobDuration(b) - jobDuration(a) ||
+        a.id.localeCompare(b.id)
+      );
+    });
+
+  const seqs: Record<ID, Job[]> = {};
+  const evals: Record<ID, TruckEval> = {};
+  for (const id of truckIds) {
+    seqs[id] = [];
+    evals[id] = timeSequence([], fixed[id], ctx, lanes[id]);
+  }
+  const unassigned: Job[] = [];
+  const costWith = (truckId: ID, ev: TruckEval) =>
+    totalCost(truckIds.map((id) => (id === truckId ? ev : evals[id])), ctx);
+
+  // Best (truck, position) for `j` given the current sequences
+  const bestInsertion = (j: Job) => {
+    let best: { truckId: ID; seq: Job[]; ev: TruckEval; cost: number } | null = null;
+    for (const tid of allowed(j)) {
+      for (let pos = 0; pos <= seqs[tid].length; pos++) {
+        const seq = [...seqs[tid].slice(0, pos), j, ...seqs[tid].slice(pos)];
+        const ev = timeSequence(seq, fixed[tid], ctx, lanes[tid]);
+        const cost = costWith(tid, ev);
+        if (best == null || cost < best.cost) best = { truckId: tid, seq, ev, cost };
+      }
+    }
+    return best;
+  };
+  const apply = (truckId: ID, seq: Job[], ev: TruckEval) => {
+    seqs[truckId] = seq;
+    evals[truckId] = ev;
+  };
+
+  for (const j of todo) {
+    const best = bestInsertion(j);
+    if (best) apply(best.truckId, best.seq, best.ev);
+    else unassigned.push(j);
+  }
+
+  // Relocate: take each job out and put it back at its best position
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (const j of todo) {
+      const from = truckIds.find((id) => seqs[id].includes(j));
+      if (!from) continue;
+      const current = totalCost(truckIds.map((id) => evals[id]), ctx);
+      const prevSeq = seqs[from];
+      const prevEval = evals[from];
+      const without = prevSeq.filter((x) => x !== j);
+      apply(from, without, timeSequence(without, fixed[from], ctx, lanes[from]));
+      const best = bestInsertion(j);
+      if (best && best.cost < current - 1e-6) {
+        apply(best.truckId, best.seq, best.ev);
+        improved = true;
+      } else {
+        apply(from, prevSeq, prevEval);
+      }
+    }
+    if (!improved) break;
+  }
+
+  // Reuse existing row ids so a re-plan updates rows instead of replacing them
+  const prevRowId = new Map(scheduled.filter((r) => r.day === day && !isBreak(r) && !r.runId).map((r) => [r.jobId, r.id]));
+  const ruleById = new Map(ctx.rules.map((r) => [r.id, r]));
+  // Breaks too, truck and rule alike in time order; new ones get ids from truck, day and rule
+  const prevBreakIds = new Map<string, ID[]>();
+  for (const r of scheduled.filter((x) => x.day === day && isBreak(x) && !x.pinned).sort((a, b) => a.startMin - b.startMin)) {
+    const k = `${r.truckId}|${r.ruleId}`;
+    prevBreakIds.set(k, [...(prevBreakIds.get(k) || []), r.id]);
+  }
+  const usedIds = new Set([...pinned, ...runRows].map((r) => r.id));
+  const nextBreakId = (tid: ID, ruleId: ID) => {
+    let id = prevBreakIds.get(`${tid}|${ruleId}`)?.shift();
+    for (let n = 0; !id || usedIds.has(id); n++) id = breakId(tid, day, ruleId, n);
+    usedIds.add(id);
+    return id;
+  };
+  const planned: ScheduledRow[] = [];
+  const unplaced: ID[] = unassigned.map((j) => j.id);
+  for (const tid of truckIds) {
+    for (const p of evals[tid].placed) {
+      planned.push({ id: prevRowId.get(p.job.id) || uid(), day, jobId: p.job.id, truckId: tid, startMin: p.start, endMin: p.end });
+    }
+    for (const b of evals[tid].breaks) planned.push(breakRow(tid, day, b.start, ruleById.get(b.ruleId!)!, false, nextBreakId(tid, b.ruleId!)));
+    for (const j of evals[tid].failed) unplaced.push(j.id);
+  }
+
+  const rows = [...scheduled.filter((r) => r.day !== day), ...pinned, ...runRows, ...planned];
+  return { rows, unplaced, score: scorePlan(rows, jobs, settings, day, travel) };
+};
+
+/** Sum of day scores; `makespan` is the latest end on any day */
+export const sumScores = (scores: PlanScore[]): PlanScore =>
+  scores.reduce(
+    (a, b) => ({
+      placed: a.placed + b.placed,
+      unplaced: a.unplaced + b.unplaced,
+      lateness: a.lateness + b.lateness,
+      makespan: Math.max(a.makespan, b.makespan),
+      idle: a.idle + b.idle,
+      total: a.total + b.total,
+    }),
+    { placed: 0, unplaced: 0, lateness: 0, makespan: 0, idle: 0, total: 0 }
+  );
+
+export const scoreWeek = (rows: ScheduledRow[], jobs: Job[], settings: Settings, travel?: TravelCtx): PlanScore =>
+  sumScores(DAYS.map((d) => scorePlan(rows, jobs, settings, d, travel)));
+
+/** Plan every day in turn; each day sees the rows the previous days produced */
+export const optimizeWeek = ({ scheduled, ...rest }: Omit<PlanInput, "day">): PlanResult => {
+  let rows = scheduled;
+  const unplaced: ID[] = [];
+  for (const day of DAYS) {
+    const res = optimizeDay({ ...rest, scheduled: rows, day });
+    rows = res.rows;
+    unplaced.push(...res.unplaced);
+  }
+  return { rows, unplaced, score: scoreWeek(rows, rest.jobs, rest.settings, rest.travel) };
+};
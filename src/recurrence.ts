@@ -0,0 +1,99 @@
+import {
+  DAYS,
+  addDays,
+  dateOfDay,
+  uid,
+} from "./model";
+import type { DayKey, ID, Job, JobTemplate, ScheduledRow, TemplateJob } from "./model";
+
+/** =======================================
+ * Recurring job templates
+ * Pure: templates expand into concrete Job instances for the planned week.
+ * Instance ids are derived from template id + date, so expanding twice gives
+ * the same jobs. Instances on the schedule or edited as "this occurrence"
+ * are never touched by expansion, whatever week is shown; the planner only
+ * shows the instances of the planned week (and their rows).
+ * ======================================= */
+export const instanceId = (templateId: ID, date: string) => `${templateId}@${date}`;
+
+export const occurrencesInWeek = (t: JobTemplate, weekOf: string): { day: DayKey; date: string }[] =>
+  DAYS.filter((d) => t.days.includes(d))
+    .map((day) => ({ day, date: dateOfDay(weekOf, day) }))
+    .filter(
+      (o) => o.date >= t.startDate && (!t.endDate || o.date <= t.endDate) && !t.skipDates.includes(o.date)
+    );
+
+export const templateJobOf = (j: Job): TemplateJob => {
+  const { id, days, templateId, occurrence, detached, ...rest } = j;
+  return rest;
+};
+
+const instantiate = (t: JobTemplate, day: DayKey, date: string): Job => ({
+  ...t.job,
+  id: instanceId(t.id, date),
+  days: [day],
+  templateId: t.id,
+  occurrence: date,
+});
+
+/** Whether `j` is part of the week starting `weekOf`; jobs that are not template instances always are */
+export const isInWeek = (j: Job, weekOf: string) =>
+  !j.occurrence || (j.occurrence >= weekOf && j.occurrence <= addDays(weekOf, DAYS.length - 1));
+
+/** Whether a change to an instance touches what it copied from its template */
+export const editsTemplateJob = (before: Job, after: Job): boolean => {
+  const a: Record<string, unknown> = templateJobOf(before);
+  const b: Record<string, unknown> = templateJobOf(after);
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])].some((k) => JSON.stringify(a[k]) !== JSON.stringify(b[k]));
+};
+
+/** Jobs with this week's instances: kept instances stay, the rest are regenerated */
+export const expandTemplates = (templates: JobTemplate[], jobs: Job[], scheduled: ScheduledRow[], weekOf: string): Job[] => {
+  const onSchedule = new Set(scheduled.map((r) => r.jobId));
+  const kept = jobs.filter((j) => !j.templateId || j.detached || onSchedule.has(j.id));
+  const have = new Set(kept.map((j) => j.id));
+  const fresh: Job[] = [];
+  for (const t of templates) {
+    for (const o of occurrencesInWeek(t, weekOf)) {
+      const id = instanceId(t.id, o.date);
+      if (!have.has(id)) fresh.push(instantiate(t, o.day, o.date));
+    }
+  }
+  return [...kept, ...fresh];
+};
+
+/** "All future occurrences": from `fromDate` on, the template uses `patch`.
+ * Returns the templates and the id of the template that now covers `fromDate`. */
+export const editFromDate = (
+  templates: JobTemplate[],
+  templateId: ID,
+  fromDate: string,
+  patch: Partial<TemplateJob>
+): { templates: JobTemplate[]; templateId: ID } => {
+  const t = templates.find((x) => x.id === templateId);
+  if (!t) return { templates, templateId };
+  if (fromDate <= t.startDate) {
+    return {
+      templates: templates.map((x) => (x.id === templateId ? { ...x, job: { ...x.job, ...patch } } : x)),
+      templateId,
+    };
+  }
+  const before: JobTemplate = {
+    ...t,
+    endDate: addDays(fromDate, -1),
+    skipDates: t.skipDates.filter((d) => d < fromDate),
+  };
+  const after: JobTemplate = {
+    ...t,
+    id: uid(),
+    job: { ...t.job, ...patch },
+    startDate: fromDate,
+    skipDates: t.skipDates.filter((d) => d >= fromDate),
+  };
+  return { templates: templates.flatMap((x) => (x.id === templateId ? [before, after] : [x])), templateId: after.id };
+};
+
+export const skipDate = (templates: JobTemplate[], templateId: ID, date: string): JobTemplate[] =>
+  templates.map((t) =>
+    t.id === templateId && !t.skipDates.includes(date) ? { ...t, skipDates: [...t.skipDates, date].sort() } : t
+  );
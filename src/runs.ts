@@ -0,0 +1,168 @@
+import { isBreak, jobDuration, uid, windowBreach } from "./model";
+import type { ID, Job, ScheduledRow } from "./model";
+import { DEPOT_ID, legMinutes } from "./travel";
+import type { TravelCtx } from "./travel";
+
+/** =======================================
+ * Multi-stop runs
+ * Pure: job rows sharing a `runId` are the stops of one run, in time order.
+ * A run loads once at the depot (all stops' load time, before the first
+ * stop), drives stop to stop and returns to the depot once after the last.
+ * Each stop row covers its own part of the run; `stopJobs` gives the job as
+ * that part sees it, so durations, segments, windows and driving time all
+ * work unchanged on stop rows.
+ * ======================================= */
+
+// Minutes from one job's site to the next; without locations, the next job's own travel
+const legBetween = (a: Job, b: Job, ctx?: TravelCtx) => {
+  if (a.clientId && a.clientId === b.clientId) return 0;
+  const ca = a.clientId ? ctx?.clientById.get(a.clientId) : undefined;
+  const cb = b.clientId ? ctx?.clientById.get(b.clientId) : undefined;
+  return (ctx && ca && cb && legMinutes(ctx, ca.id, ca.location, cb.id, cb.location)) ?? b.travelMin;
+};
+const returnOf = (j: Job, ctx?: TravelCtx) => {
+  if (j.returnTravelMin > 0) return j.returnTravelMin;
+  const c = j.clientId ? ctx?.clientById.get(j.clientId) : undefined;
+  return (ctx && c && legMinutes(ctx, c.id, c.location, DEPOT_ID, ctx.depot?.location)) ?? j.travelMin;
+};
+
+/** The stops of a run (jobs in order) as the parts of the run they cover */
+export const stopJobs = (ordered: Job[], ctx?: TravelCtx): Job[] => {
+  const load = ordered.reduce((sum, j) => sum + j.loadMin, 0);
+  const last = ordered.length - 1;
+  return ordered.map((j, i) => ({
+    ...j,
+    loadMin: i === 0 ? load : 0,
+    travelMin: i === 0 ? j.travelMin : legBetween(ordered[i - 1], j, ctx),
+    returnTravelMin: i === last ? returnOf(j, ctx) : 0,
+  }));
+};
+
+/** Stop rows of each run, in time order */
+export const runsOf = (rows: ScheduledRow[]): Map<ID, ScheduledRow[]> => {
+  const out = new Map<ID, ScheduledRow[]>();
+  for (const r of rows) if (r.runId && !isBreak(r)) out.set(r.runId, [...(out.get(r.runId) || []), r]);
+  for (const list of out.values()) list.sort((a, b) => a.startMin - b.startMin);
+  return out;
+};
+
+/** Row id → the job as its run stop sees it, for every row in a run */
+export const stopJobsByRow = (rows: ScheduledRow[], jobById: Map<ID, Job>, ctx?: TravelCtx): Map<ID, Job> => {
+  const out = new Map<ID, Job>();
+  for (const list of runsOf(rows).values()) {
+    const stops = list.filter((r) => jobById.has(r.jobId));
+    stopJobs(stops.map((r) => jobById.get(r.jobId)!), ctx).forEach((j, i) => out.set(stops[i].id, j));
+  }
+  return out;
+};
+
+/** `rows` with run `runId` timed back to back from `start`, stops in `order` (row ids) */
+export const retimeRun = (
+  rows: ScheduledRow[],
+  runId: ID,
+  jobById: Map<ID, Job>,
+  ctx?: TravelCtx,
+  opts: { start?: number; order?: ID[]; truckId?: ID } = {}
+): ScheduledRow[] => {
+  const list = (runsOf(rows).get(runId) || []).filter((r) => jobById.has(r.jobId));
+  if (!list.length) return rows;
+  const order = opts.order || list.map((r) => r.id);
+  const stops = order.map((id) => list.find((r) => r.id === id)!).filter(Boolean);
+  const jobs = stopJobs(stops.map((r) => jobById.get(r.jobId)!), ctx);
+  const timed = new Map<ID, ScheduledRow>();
+  let t = opts.start ?? list[0].startMin;
+  stops.forEach((r, i) => {
+    const end = t + jobDuration(jobs[i]);
+    timed.set(r.id, { ...r, truckId: opts.truckId ?? r.truckId, startMin: t, endMin: end });
+    t = end;
+  });
+  return rows.map((r) => timed.get(r.id) || r);
+};
+
+/** Put rows into one run (same truck-day), timed from the earliest of them */
+export const makeRun = (rows: ScheduledRow[], rowIds: ID[], jobById: Map<ID, Job>, ctx?: TravelCtx): ScheduledRow[] => {
+  const picked = rows.filter((r) => rowIds.includes(r.id) && !isBreak(r));
+  if (picked.length < 2) return rows;
+  // Joining a row that is already a stop extends that run
+  const runId = picked.find((r) => r.runId)?.runId || uid();
+  const joined = rows.map((r) =>
+    rowIds.includes(r.id) || (r.runId && picked.some((p) => p.runId === r.runId)) ? { ...r, runId } : r
+  );
+  return retimeRun(joined, runId, jobById, ctx);
+};
+
+/** Take a stop out of its run: it becomes a plain job right after what is left of the run */
+export const leaveRun = (rows: ScheduledRow[], rowId: ID, jobById: Map<ID, Job>, ctx?: TravelCtx): ScheduledRow[] => {
+  const row = rows.find((r) => r.id === rowId);
+  const j = row && jobById.get(row.jobId);
+  if (!row?.runId || !j) return rows;
+  const runId = row.runId;
+  const rest = (runsOf(rows).get(runId) || []).filter((r) => r.id !== rowId);
+  let out = rows.filter((r) => r.id !== rowId);
+  if (rest.length === 1) {
+    // A run of one is just a job again
+    const only = jobById.get(rest[0].jobId);
+    out = out.map((r) => (r.id === rest[0].id ? { ...r, runId: undefined, endMin: r.startMin + (only ? jobDuration(only) : r.endMin - r.startMin) } : r));
+  } else if (rest.length) {
+    out = retimeRun(out, runId, jobById, ctx, { start: rest[0].startMin });
+  }
+  const after = Math.max(row.startMin, ...out.filter((r) => rest.some((x) => x.id === r.id)).map((r) => r.endMin));
+  return [...out, { ...row, runId: undefined, startMin: after, endMin: after + jobDuration(j) }];
+};
+
+/** Swap a stop with its neighbour (dir -1 = earlier) */
+export const moveStop = (rows: ScheduledRow[], rowId: ID, dir: -1 | 1, jobById: Map<ID, Job>, ctx?: TravelCtx): ScheduledRow[] => {
+  const row = rows.find((r) => r.id === rowId);
+  if (!row?.runId) return rows;
+  const list = runsOf(rows).get(row.runId) || [];
+  const i = list.findIndex((r) => r.id === rowId);
+  const k = i + dir;
+  if (k < 0 || k >= list.length) return rows;
+  const order = list.map((r) => r.id);
+  [order[i], order[k]] = [order[k], order[i]];
+  return retimeRun(rows, row.runId, jobById, ctx, { start: list[0].startMin, order });
+};
+
+// Window minutes outside, weighted well above driving minutes
+const orderCost = (ordered: Job[], start: number, ctx?: TravelCtx) => {
+  let t = start;
+  let breach = 0;
+  for (const j of stopJobs(ordered, ctx)) {
+    breach += windowBreach(j, t).total;
+    t += jobDuration(j);
+  }
+  return breach * 10 + (t - start);
+};
+
+const MAX_EXACT_STOPS = 7; // 7! orders; beyond that, cheapest insertion
+
+/** Stop order with the least window breach, then the shortest run */
+export const bestStopOrder = (jobs: Job[], start: number, ctx?: TravelCtx): Job[] => {
+  if (jobs.length < 2) return jobs;
+  if (jobs.length <= MAX_EXACT_STOPS) {
+    let best = jobs;
+    let bestCost = orderCost(jobs, start, ctx);
+    const permute = (done: Job[], left: Job[]) => {
+      if (!left.length) {
+        const c = orderCost(done, start, ctx);
+        if (c < bestCost) [best, bestCost] = [done, c];
+        return;
+      }
+      left.forEach((j, i) => permute([...done, j], [...left.slice(0, i), ...left.slice(i + 1)]));
+    };
+    permute([], jobs);
+    return best;
+  }
+  let seq: Job[] = [];
+  for (const j of jobs) {
+    let bestSeq: Job[] = [];
+    let bestCost = Infinity;
+    for (let pos = 0; pos <= seq.length; pos++) {
+      const cand = [...seq.slice(0, pos), j, ...seq.slice(pos)];
+      const c = orderCost(cand, start, ctx);
+      if (c < bestCost) [bestSeq, bestCost] = [cand, c];
+    }
+    seq = bestSeq;
+  }
+  return seq;
+};
@@ -0,0 +1,329 @@
+import {
+  DAYS,
+  DEFAULT_SETTINGS,
+  JOB_STATUSES,
+  isHHMM,
+  isISODate,
+  uid,
+  withJobDays,
+} from "./model";
+import type {
+  Client,
+  DayKey,
+  Driver,
+  DriverAssignment,
+  ID,
+  Job,
+  JobStatus,
+  JobTemplate,
+  ScheduledRow,
+  Settings,
+  Truck,
+} from "./model";
+import type { DistanceMatrix } from "./travel";
+
+/** =======================================
+ * Stored data: versions & migrations
+ * Pure: everything persisted (local storage keys, the shared row) is
+ * wrapped in an envelope with the schema version it was written with.
+ * Reading runs the migrations from that version up, then checks every
+ * record; records that still do not fit go to the recovery area rather
+ * than being dropped.
+ *
+ * Versions:
+ *   1  legacy JSX app: loadMins/travelMins/…, client by name, priority,
+ *      assignedTruckId; clients { name, defaults }; not wrapped
+ *   2  current records, not wrapped; jobs may have no `days`
+ *   3  wrapped in an Envelope
+ * ======================================= */
+export const SCHEMA_VERSION = 3;
+
+export type Stored = {
+  trucks: Truck[];
+  clients: Client[];
+  jobs: Job[];
+  scheduled: ScheduledRow[];
+  settings: Settings;
+  templates: JobTemplate[];
+  drivers: Driver[];
+  assignments: DriverAssignment[];
+  matrix: DistanceMatrix;
+};
+export type StoredKey = keyof Stored;
+export const STORED_KEYS: StoredKey[] = ["trucks", "clients", "jobs", "scheduled", "settings", "templates", "drivers", "assignments", "matrix"];
+
+export type Envelope<T> = { version: number; savedAt: string; data: T };
+// A record that could not be read, kept so it can be fixed by hand
+export type RecoveryItem = { id: ID; key: StoredKey; record: unknown; reason: string; at: string };
+export const recoveryItem = (key: StoredKey, record: unknown, reason: string, now = new Date()): RecoveryItem => ({
+  id: uid(),
+  key,
+  record,
+  reason,
+  at: now.toISOString(),
+});
+
+// Data as found: any shape, any version
+type Loose = Partial<Record<StoredKey, unknown>>;
+type Rec = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Rec => !!v && typeof v === "object" && !Array.isArray(v);
+const isStr = (v: unknown): v is string => typeof v === "string";
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isDay = (v: unknown): v is DayKey => DAYS.includes(v as DayKey);
+const isTime = (v: unknown): v is string => isStr(v) && isHHMM(v);
+const isDate = (v: unknown): v is string => isStr(v) && isISODate(v);
+
+export const wrap = <T,>(data: T, now = new Date()): Envelope<T> => ({ version: SCHEMA_VERSION, savedAt: now.toISOString(), data });
+
+/** Data and version of a stored value; anything not wrapped predates envelopes */
+export const unwrap = (raw: unknown): { version: number; data: unknown } =>
+  isObj(raw) && isNum(raw.version) && "data" in raw ? { version: raw.version, data: raw.data } : { version: 1, data: raw };
+
+/** =======================================
+ * Migrations
+ * Each step recognises the old shape itself, so records already past it
+ * (keys are saved separately and may be at different versions) pass
+ * through unchanged.
+ * ======================================= */
+const num = (v: unknown, fallback = 0) => (isNum(v) ? v : isStr(v) && v.trim() !== "" && isNum(Number(v)) ? Number(v) : fallback);
+
+const isLegacyJob = (j: unknown): j is Rec => isObj(j) && ("loadMins" in j || "travelMins" in j || "assignedTruckId" in j || ("client" in j && !("clientId" in j)));
+
+const legacyJob = (j: Rec, clientIdByName: Map<string, ID>): Job => {
+  const type = j.type === "Collection" ? "Collection" : "Delivery";
+  const name = isStr(j.client) ? j.client.trim() : "";
+  // Legacy priority (1 = most urgent) has no field any more; keep it readable in the notes
+  const priority = isNum(j.priority) && j.priority !== 3 ? `Priority ${j.priority}` : "";
+  const notes = [isStr(j.notes) ? j.notes : "", priority].filter(Boolean).join("\n");
+  return {
+    id: isStr(j.id) && j.id ? j.id : uid(),
+    type,
+    title: isStr(j.title) && j.title ? j.title : name ? `${type} ${name}` : `${type} Job`,
+    clientId: (name && clientIdByName.get(name.toLowerCase())) || null,
+    // Collections had their depot offload at the end; it is kept as load time so the duration stays the same
+    loadMin: type === "Delivery" ? num(j.loadMins) : num(j.offloadMins),
+    travelMin: num(j.travelMins),
+    onsiteMin: num(j.onsiteMins),
+    returnTravelMin: num(j.returnMins),
+    earliest: isTime(j.earliest) ? j.earliest : undefined,
+    days: isDay(j.day) ? [j.day] : undefined,
+    truckId: isStr(j.assignedTruckId) && j.assignedTruckId ? j.assignedTruckId : null,
+    notes: notes || undefined,
+  };
+};
+
+const legacyClient = (c: Rec): Client => {
+  const defaults: Rec = isObj(c.defaults) ? c.defaults : {};
+  return {
+    id: isStr(c.id) && c.id ? c.id : uid(),
+    name: String(c.name ?? "").trim(),
+    defaultTravelMin: num(defaults.travelMins, 30),
+    defaultOnsiteMin: num(defaults.onsiteMins, 30),
+    notes: isStr(defaults.notes) && defaults.notes ? defaults.notes : undefined,
+  };
+};
+
+// 1 → 2: legacy JSX records to the current types
+const fromLegacy = (s: Loose): Loose => {
+  const out = { ...s };
+  const clients: unknown[] = Array.isArray(s.clients) ? s.clients : [];
+  const fixedClients = clients.map((c) => (isObj(c) && !("id" in c) && "name" in c ? legacyClient(c) : c));
+  const byName = new Map<string, ID>();
+  for (const c of fixedClients) if (isObj(c) && isStr(c.id) && isStr(c.name)) byName.set(c.name.trim().toLowerCase(), c.id);
+
+  if (Array.isArray(s.jobs)) {
+    // Jobs pointed at clients by name; unknown names become clients
+    for (const j of s.jobs) {
+      const name = isLegacyJob(j) && isStr(j.client) ? j.client.trim() : "";
+      if (name && !byName.has(name.toLowerCase())) {
+        const c = legacyClient({ name });
+        fixedClients.push(c);
+        byName.set(name.toLowerCase(), c.id);
+      }
+    }
+    out.jobs = s.jobs.map((j) => (isLegacyJob(j) ? legacyJob(j, byName) : j));
+  }
+  if (Array.isArray(s.clients) || fixedClients.length) out.clients = fixedClients;
+  if (Array.isArray(s.scheduled)) {
+    // Legacy rows had no id, and unplaced jobs were rows with null times
+    out.scheduled = s.scheduled
+      .filter((r) => !(isObj(r) && r.startMin == null && r.truckId == null && !("id" in r)))
+      .map((r) => (isObj(r) && !("id" in r) ? { ...r, id: uid() } : r));
+  }
+  if (isObj(s.settings)) out.settings = { ...DEFAULT_SETTINGS, ...s.settings };
+  return out;
+};
+
+// 2 → 3: jobs from before per-job days get the days they are scheduled on
+const withDays = (s: Loose): Loose => {
+  if (!Array.isArray(s.jobs)) return s;
+  const scheduled = (Array.isArray(s.scheduled) ? s.scheduled : []).filter(isObj) as ScheduledRow[];
+  const fallback = isObj(s.settings) && isDay(s.settings.activeDay) ? s.settings.activeDay : "Mon";
+  const jobs = s.jobs.map((j) => (isObj(j) && j.days != null && !Array.isArray(j.days) ? { ...j, days: undefined } : j));
+  return { ...s, jobs: [...withJobDays(jobs.filter(isObj) as Job[], scheduled, fallback), ...jobs.filter((j) => !isObj(j))] };
+};
+
+export const MIGRATIONS: { to: number; label: string; up: (s: Loose) => Loose }[] = [
+  { to: 2, label: "legacy app records", up: fromLegacy },
+  { to: 3, label: "days on every job", up: withDays },
+];
+
+export const migrate = (s: Loose, from: number): Loose =>
+  MIGRATIONS.filter((m) => m.to > from).reduce((acc, m) => m.up(acc), s);
+
+/** =======================================
+ * Checks
+ * Why a record is not a valid current record, or null
+ * ======================================= */
+const need = (ok: boolean, reason: string) => (ok ? null : reason);
+const first = (...reasons: (string | null)[]) => reasons.find((r) => r) || null;
+const minutes = (j: Rec, keys: string[]) =>
+  first(...keys.map((k) => need(isNum(j[k]) && j[k] >= 0, `${k} is not a number of minutes`)));
+
+const checkTruck = (t: Rec) =>
+  first(
+    need(isStr(t.id) && !!t.id, "no id"),
+    need(isStr(t.name), "no name"),
+    need(t.capacity == null || isObj(t.capacity), "capacity is not an object"),
+    need(t.unavailable == null || Array.isArray(t.unavailable), "unavailable is not a list")
+  );
+const checkClient = (c: Rec) =>
+  first(
+    need(isStr(c.id) && !!c.id, "no id"),
+    need(isStr(c.name), "no name"),
+    need(c.location == null || (isObj(c.location) && isNum(c.location.lat) && isNum(c.location.lng)), "location is not lat/lng")
+  );
+const checkJobFields = (j: Rec) =>
+  first(
+    need(j.type === "Delivery" || j.type === "Collection", `type "${j.type}" is not Delivery or Collection`),
+    need(isStr(j.title), "no title"),
+    need(j.clientId === null || j.clientId === undefined || isStr(j.clientId), "clientId is not an id"),
+    minutes(j, ["loadMin", "travelMin", "onsiteMin", "returnTravelMin"])
+  );
+const checkJob = (j: Rec) =>
+  first(
+    need(isStr(j.id) && !!j.id, "no id"),
+    checkJobFields(j),
+    need(Array.isArray(j.days) && j.days.every(isDay), "days is not a list of days")
+  );
+const isStatusUpdate = (u: unknown) => isObj(u) && JOB_STATUSES.includes(u.status as JobStatus) && isStr(u.at) && !isNaN(Date.parse(u.at));
+const checkRow = (r: Rec) =>
+  first(
+    need(isStr(r.id) && !!r.id, "no id"),
+    need(isDay(r.day), `day "${r.day}" is not a weekday`),
+    need(isStr(r.jobId), "no jobId"),
+    need(isStr(r.truckId) && !!r.truckId, "not on a truck"),
+    need(isNum(r.startMin) && isNum(r.endMin) && r.endMin >= r.startMin, "start/end are not times"),
+    need(r.progress == null || (Array.isArray(r.progress) && r.progress.every(isStatusUpdate)), "progress is not a list of status updates"),
+    need(
+      r.delay == null || (isObj(r.delay) && isNum(r.delay.minutes) && r.delay.minutes > 0 && ["actual", "expected"].includes(r.delay.kind as string)),
+      "delay is not a number of minutes"
+    )
+  );
+const checkTemplate = (t: Rec) =>
+  first(
+    need(isStr(t.id) && !!t.id, "no id"),
+    isObj(t.job) ? checkJobFields(t.job) : "no job",
+    need(Array.isArray(t.days) && t.days.every(isDay), "days is not a list of days"),
+    need(isDate(t.startDate), "startDate is not a date"),
+    need(Array.isArray(t.skipDates), "skipDates is not a list")
+  );
+const checkDriver = (d: Rec) =>
+  first(
+    need(isStr(d.id) && !!d.id, "no id"),
+    need(isStr(d.name), "no name"),
+    need(isTime(d.shiftStart) && isTime(d.shiftEnd), "shift is not HH:MM"),
+    need(Array.isArray(d.daysOff), "daysOff is not a list"),
+    minutes(d, ["maxDrivingMin", "maxDutyMin"])
+  );
+const checkAssignment = (a: Rec) =>
+  first(need(isStr(a.truckId) && isStr(a.driverId), "no truck or driver"), need(isDay(a.day), `day "${a.day}" is not a weekday`));
+
+const LIST_CHECKS = {
+  trucks: checkTruck,
+  clients: checkClient,
+  jobs: checkJob,
+  scheduled: checkRow,
+  templates: checkTemplate,
+  drivers: checkDriver,
+  assignments: checkAssignment,
+};
+export type ListKey = keyof typeof LIST_CHECKS;
+export type ListRecord = Stored[ListKey][number];
+export const isListKey = (k: StoredKey): k is ListKey => k in LIST_CHECKS;
+/** Identity within a list; assignments are one per truck-day */
+export const listId = (r: ListRecord): string => ("id" in r ? r.id : `${r.truckId}:${r.day}`);
+
+// Settings fields that must have these shapes; a bad one falls back to the default
+const SETTING_CHECKS: Partial<Record<keyof Settings, (v: unknown) => boolean>> = {
+  startTime: isTime,
+  endTime: isTime,
+  gap: (v) => isNum(v) && v > 0,
+  bufferBetweenJobs: (v) => isNum(v) && v >= 0,
+  activeDay: isDay,
+  weekOf: (v) => v == null || isDate(v),
+  breakRules: (v) => v == null || Array.isArray(v),
+};
+
+/** Current records out of migrated data; the rest as recovery items */
+export const check = (s: Loose, now = new Date()): { state: Partial<Stored>; recovery: RecoveryItem[] } => {
+  const recovery: RecoveryItem[] = [];
+  const lost = (key: StoredKey, record: unknown, reason: string) => recovery.push(recoveryItem(key, record, reason, now));
+  const state: Partial<Stored> = {};
+
+  for (const key of Object.keys(LIST_CHECKS) as ListKey[]) {
+    const v = s[key];
+    if (v === undefined) continue;
+    if (!Array.isArray(v)) {
+      lost(key, v, "not a list");
+      continue;
+    }
+    const ok: Rec[] = [];
+    const seen = new Set<string>();
+    for (const rec of v) {
+      const reason = isObj(rec) ? LIST_CHECKS[key](rec) : "not a record";
+      // Assignments have no id; the rest must be unique
+      const dup = !reason && isStr(rec.id) && seen.has(rec.id) ? `duplicate id ${rec.id}` : null;
+      if (reason || dup) lost(key, rec, (reason || dup)!);
+      else {
+        if (isStr(rec.id)) seen.add(rec.id);
+        ok.push(rec);
+      }
+    }
+    (state as Record<ListKey, Rec[]>)[key] = ok; // each one passed its check
+  }
+
+  if (s.settings !== undefined) {
+    if (!isObj(s.settings)) lost("settings", s.settings, "not an object");
+    const settings: Rec = { ...DEFAULT_SETTINGS, ...(isObj(s.settings) ? s.settings : {}) };
+    for (const [field, ok] of Object.entries(SETTING_CHECKS)) {
+      if (ok(settings[field])) continue;
+      lost("settings", { [field]: settings[field] }, `${field} is not valid; the default is used`);
+      settings[field] = (DEFAULT_SETTINGS as Rec)[field];
+    }
+    state.settings = settings as Settings;
+  }
+
+  if (s.matrix !== undefined) {
+    if (!isObj(s.matrix)) lost("matrix", s.matrix, "not a distance table");
+    const matrix: DistanceMatrix = {};
+    for (const [k, v] of Object.entries(isObj(s.matrix) ? s.matrix : {})) {
+      if (isNum(v) && v >= 0) matrix[k] = v;
+      else lost("matrix", { [k]: v }, `leg ${k} is not a number of minutes`);
+    }
+    state.matrix = matrix;
+  }
+  return { state, recovery };
+};
+
+/** Migrate and check data written at `version` */
+export const readStored = (s: Loose, version: number, now = new Date()) =>
+  check(version >= SCHEMA_VERSION ? s : migrate(s, version), now);
+
+/** One recovery record, edited by hand, as a current record (or why it still is not one) */
+export const retryRecord = <K extends ListKey>(key: K, record: unknown): { value?: Stored[K][number]; reason?: string } => {
+  const { state, recovery } = readStored({ [key]: [record] }, 1);
+  const value = (state[key] as Stored[K] | undefined)?.[0];
+  return value ? { value } : { reason: recovery[0]?.reason || "not a record" };
+};
@@ -0,0 +1,103 @@
+/** =======================================
+ * Spreadsheet files
+ * CSV is parsed and written here; XLSX goes through SheetJS, loaded from
+ * the SheetJS CDN on first use (like Supabase). The build is pinned to a
+ * release without the known file-parsing flaws (CVE-2023-30533,
+ * CVE-2024-22363): users open spreadsheets from anywhere. A table is rows
+ * of cells, the first row being the header.
+ * ======================================= */
+export type Table = string[][];
+
+let __xlsxP: Promise<any> | null = null;
+const getXlsx = async () => {
+  if (!__xlsxP) {
+    const u = "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+    __xlsxP = import(/* @vite-ignore */ u);
+  }
+  return __xlsxP;
+};
+
+// The delimiter that splits the header line into the most cells
+const guessDelimiter = (text: string) => {
+  const first = text.split(/\r?\n/, 1)[0] || "";
+  return [",", ";", "\t"].reduce((best, d) => (first.split(d).length > first.split(best).length ? d : best), ",");
+};
+
+/** RFC 4180 CSV: quoted cells may hold delimiters, quotes ("") and line breaks */
+export const parseCSV = (raw: string): Table => {
+  const text = raw.replace(/^\uFEFF/, "");
+  const d = guessDelimiter(text);
+  const rows: Table = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"' && cell === "") quoted = true;
+    else if (c === d) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else cell += c;
+  }
+  if (cell !== "" || row.length) rows.push([...row, cell]);
+  return rows.filter((r) => r.some((x) => x.trim() !== "")).map((r) => r.map((x) => x.trim()));
+};
+
+// Text a spreadsheet would run as a formula gets a leading quote (numbers stay numbers)
+const inert = (v: string | number) => (typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v));
+
+export const toCSV = (rows: (string | number)[][]) =>
+  rows
+    .map((r) =>
+      r
+        .map(inert)
+        .map((v) => (/[",\n\r;]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v))
+        .join(",")
+    )
+    .join("\r\n");
+
+/** First sheet of an .xlsx/.xls file, or a .csv file, as a table */
+export const readTable = async (file: File): Promise<Table> => {
+  if (/\.xlsx?$/i.test(file.name)) {
+    const XLSX = await getXlsx();
+    const wb = XLSX.read(await file.arrayBuffer(), { type: "array" });
+    const sheet = wb.Sheets[wb.SheetNames[0]];
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: "" });
+    return rows.map((r) => r.map((v) => String(v ?? "").trim())).filter((r) => r.some((x) => x !== ""));
+  }
+  return parseCSV(await file.text());
+};
+
+export const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const saveTable = async (rows: (string | number)[][], basename: string, format: "csv" | "xlsx") => {
+  if (format === "csv") {
+    // BOM so Excel opens UTF-8 (client names with accents) correctly
+    download(new Blob(["\uFEFF" + toCSV(rows)], { type: "text/csv;charset=utf-8" }), `${basename}.csv`);
+    return;
+  }
+  const XLSX = await getXlsx();
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), "Schedule");
+  const out: ArrayBuffer = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+  download(new Blob([out], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), `${basename}.xlsx`);
+};
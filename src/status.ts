@@ -0,0 +1,76 @@
+import { JOB_STATUSES } from "./model";
+import type { JobStatus, JobType, ScheduledRow, StatusUpdate } from "./model";
+
+/** =======================================
+ * Job status from the road
+ * Pure: drivers tap through en route → arrived → loading/offloading →
+ * completed (or failed, with a reason). Every tap is kept with its real
+ * time, so the plan can be set against what actually happened.
+ * ======================================= */
+export const STATUS_TONES: Record<JobStatus, string> = {
+  en_route: "bg-sky-500",
+  arrived: "bg-indigo-500",
+  working: "bg-amber-500",
+  completed: "bg-emerald-600",
+  failed: "bg-rose-600",
+};
+
+export const statusLabel = (status: JobStatus, type?: JobType) => {
+  if (status === "working") return type === "Collection" ? "Loading" : type === "Delivery" ? "Offloading" : "Loading / offloading";
+  return { en_route: "En route", arrived: "Arrived", completed: "Completed", failed: "Failed" }[status];
+};
+
+// Local calendar date of a moment, YYYY-MM-DD
+const localDate = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/**
+ * The updates reported on `date` (the row's date in the planned week). A
+ * row only names a weekday, so taps from another week are not about this one.
+ */
+export const updatesOn = (r: ScheduledRow, date: string): StatusUpdate[] => (r.progress || []).filter((u) => localDate(new Date(u.at)) === date);
+
+export const lastUpdate = (r: ScheduledRow, date: string): StatusUpdate | undefined => updatesOn(r, date).slice(-1)[0];
+export const isDone = (r: ScheduledRow, date: string) => ["completed", "failed"].includes(lastUpdate(r, date)?.status || "");
+
+/** `r` with `status` reported at `now` */
+export const withStatus = (r: ScheduledRow, status: JobStatus, now: Date, by?: string, reason?: string): ScheduledRow => ({
+  ...r,
+  progress: [...(r.progress || []), { status, at: now.toISOString(), ...(by ? { by } : {}), ...(reason ? { reason } : {}) }],
+});
+
+/** The status a driver would normally tap next on `date` */
+export const nextStatus = (r: ScheduledRow, date: string): JobStatus | null => {
+  const last = lastUpdate(r, date)?.status;
+  if (!last) return "en_route";
+  if (last === "completed" || last === "failed") return null;
+  return JOB_STATUSES[JOB_STATUSES.indexOf(last) + 1];
+};
+
+/** When each status was first reported on `date` */
+export const actualTimes = (r: ScheduledRow, date: string): Partial<Record<JobStatus, Date>> => {
+  const out: Partial<Record<JobStatus, Date>> = {};
+  for (const u of updatesOn(r, date)) if (!out[u.status]) out[u.status] = new Date(u.at);
+  return out;
+};
+
+// Minutes after midnight on the day of `d`
+const minuteOf = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+/**
+ * What actually happened on `date`, in minutes of the day: from the first
+ * report to completion (or `now` while the job is still going)
+ */
+export const actualSpan = (r: ScheduledRow, date: string, now = new Date()): { from: number; to: number; open: boolean } | null => {
+  const first = updatesOn(r, date)[0];
+  if (!first) return null;
+  const from = minuteOf(new Date(first.at));
+  const end = isDone(r, date) ? lastUpdate(r, date)! : null;
+  const to = end ? minuteOf(new Date(end.at)) : localDate(now) === date ? minuteOf(now) : from;
+  return { from, to: Math.max(from, to), open: !end };
+};
+
+/** Minutes the job started late (positive) or early (negative) against the plan, once known */
+export const startDelay = (r: ScheduledRow, date: string): number | null => {
+  const at = updatesOn(r, date).find((u) => u.status === "en_route" || u.status === "arrived");
+  return at ? minuteOf(new Date(at.at)) - r.startMin : null;
+};
@@ -0,0 +1,265 @@
+import { uid } from "./model";
+import type { ID } from "./model";
+import type { RecordKey, SyncRecord } from "./sync";
+import { wsKey } from "./workspaces";
+
+/** =======================================
+ * Storage adapters
+ * Where the shared records live. The sync engine (sync.ts) talks to any of
+ * them through `StorageAdapter`: read everything, write one record if its
+ * version is still the expected one, and hear about other people's writes.
+ * An adapter throws when the store cannot be reached; the engine keeps the
+ * edit queued and tries again later. A write the store refuses outright (the
+ * caller's role may not make it) comes back `rejected`, and is not retried.
+ * Each adapter serves one workspace and never reads or writes another's records.
+ * ======================================= */
+export type PushResult =
+  | { ok: true; record: SyncRecord }
+  | { ok: false; current: SyncRecord }
+  | { ok: false; rejected: string };
+
+export interface StorageAdapter {
+  /** Stable name of the store; queued edits and sync state are kept per id */
+  id: string;
+  label: string;
+  pull(): Promise<SyncRecord[]>;
+  /** Write `record` if the stored version is still `expected` (0: does not exist yet) */
+  push(record: SyncRecord, expected: number): Promise<PushResult>;
+  subscribe(on: (record: SyncRecord) => void): () => void;
+}
+
+export type AdapterKind = "off" | "local" | "supabase" | "rest";
+export type AdapterChoice = { kind: AdapterKind; url?: string };
+
+export const ADAPTER_LABELS: Record<AdapterKind, string> = {
+  off: "Off",
+  local: "This browser",
+  supabase: "Supabase",
+  rest: "REST server",
+};
+
+// Write `record` into `rows` if the version matches; how every store decides a conflict
+const compareAndSet = (rows: Map<RecordKey, SyncRecord>, record: SyncRecord, expected: number): PushResult => {
+  const cur = rows.get(record.key);
+  const version = cur?.version ?? 0;
+  if (version !== expected) return { ok: false, current: cur ?? { ...record, data: null, version } };
+  rows.set(record.key, record);
+  return { ok: true, record };
+};
+
+/** Everything in memory: for trying the engine without a server; `latency` ms per call */
+export const memoryAdapter = (latency = 0) => {
+  const rows = new Map<RecordKey, SyncRecord>();
+  const subscribers = new Set<(r: SyncRecord) => void>();
+  let offline = false;
+  const wait = async () => {
+    await new Promise((res) => setTimeout(res, latency));
+    if (offline) throw new Error("Memory store is offline");
+  };
+  const adapter: StorageAdapter = {
+    id: "memory",
+    label: "Memory",
+    async pull() {
+      await wait();
+      return [...rows.values()];
+    },
+    async push(record, expected) {
+      await wait();
+      const res = compareAndSet(rows, record, expected);
+      if (res.ok) subscribers.forEach((fn) => setTimeout(() => fn(record), latency));
+      return res;
+    },
+    subscribe(on) {
+      subscribers.add(on);
+      return () => subscribers.delete(on);
+    },
+  };
+  // `setOffline` makes every call fail, as a dropped connection would
+  return { ...adapter, rows, setOffline: (v: boolean) => (offline = v) };
+};
+
+/** Shared between the tabs of this browser; other tabs hear writes through the `storage` event */
+export const localAdapter = (workspace: ID, key = wsKey("ts_shared_records", workspace)): StorageAdapter => {
+  const read = (): Map<RecordKey, SyncRecord> => {
+    try {
+      return new Map((JSON.parse(localStorage.getItem(key) || "[]") as SyncRecord[]).map((r) => [r.key, r]));
+    } catch {
+      return new Map();
+    }
+  };
+  return {
+    id: `local:${key}`,
+    label: ADAPTER_LABELS.local,
+    async pull() {
+      return [...read().values()];
+    },
+    async push(record, expected) {
+      const rows = read();
+      const res = compareAndSet(rows, record, expected);
+      if (res.ok) localStorage.setItem(key, JSON.stringify([...rows.values()])); // a full store throws: the edit stays queued
+      return res;
+    },
+    subscribe(on) {
+      const seen = new Map([...read()].map(([k, r]) => [k, r.version]));
+      const onStorage = (e: StorageEvent) => {
+        if (e.key !== key) return;
+        for (const r of read().values()) {
+          if ((seen.get(r.key) ?? 0) >= r.version) continue;
+          seen.set(r.key, r.version);
+          on(r);
+        }
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    },
+  };
+};
+
+/**
+ * Supabase table, one row per record:
+ *
+ *   create table app_records (
+ *     workspace text not null,
+ *     key text not null,
+ *     kind text not null,
+ *     data jsonb,
+ *     version integer not null,
+ *     updated_by text not null,
+ *     updated_at timestamptz not null default now(),
+ *     primary key (workspace, key)
+ *   );
+ *   alter publication supabase_realtime add table app_records;
+ */
+export const supabaseAdapter = (sb: any, url: string, workspace: ID, table = "app_records"): StorageAdapter => {
+  const fromRow = (r: any): SyncRecord => ({
+    key: r.key,
+    kind: r.kind,
+    data: r.data,
+    version: r.version,
+    updatedBy: r.updated_by,
+    updatedAt: r.updated_at,
+  });
+  const toRow = (r: SyncRecord) => ({ workspace, key: r.key, kind: r.kind, data: r.data, version: r.version, updated_by: r.updatedBy, updated_at: r.updatedAt });
+  const fail = (error: any, what: string) => new Error(`Supabase ${what} failed: ${error.message || error}${error.code ? ` (${error.code})` : ""}`);
+  // null: no such row, or none this user may see
+  const current = async (key: RecordKey) => {
+    const { data, error } = await sb.from(table).select("*").eq("workspace", workspace).eq("key", key).maybeSingle();
+    if (error) throw fail(error, "read");
+    return data ? fromRow(data) : null;
+  };
+  const denied = (error: any) => ({ ok: false as const, rejected: error?.message || "Not allowed by the workspace's policies" });
+  return {
+    id: `supabase:${url}/${table}/${workspace}`,
+    label: ADAPTER_LABELS.supabase,
+    async pull() {
+      const { data, error } = await sb.from(table).select("*").eq("workspace", workspace);
+      if (error) throw fail(error, "read");
+      return (data || []).map(fromRow);
+    },
+    async push(record, expected) {
+      if (expected === 0) {
+        const { data, error } = await sb.from(table).insert(toRow(record)).select().single();
+        if (!error) return { ok: true, record: fromRow(data) };
+        if (error.code === "42501") return denied(error); // row-level security or the drivers' trigger
+        if (error.code !== "23505") throw fail(error, "write"); // unique violation: someone created it first
+        const cur = await current(record.key);
+        return cur ? { ok: false, current: cur } : denied(null);
+      }
+      const { data, error } = await sb.from(table).update(toRow(record)).eq("workspace", workspace).eq("key", record.key).eq("version", expected).select();
+      if (error?.code === "42501") return denied(error);
+      if (error) throw fail(error, "write");
+      if (data?.length) return { ok: true, record: fromRow(data[0]) };
+      // Nothing updated: a newer version, or a row the policies kept this user from updating
+      const cur = await current(record.key);
+      return cur && cur.version !== expected ? { ok: false, current: cur } : denied(null);
+    },
+    subscribe(on) {
+      const channel = sb
+        .channel(`records:${workspace}:${uid()}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table, filter: `workspace=eq.${workspace}` },
+          (payload: any) => payload.new?.key && payload.new.workspace === workspace && on(fromRow(payload.new))
+        )
+        .subscribe();
+      return () => {
+        try {
+          sb.removeChannel(channel);
+        } catch {}
+      };
+    },
+  };
+};
+
+/**
+ * Any server speaking this JSON protocol (records as in `SyncRecord`):
+ *
+ *   GET  {base}/workspaces/{ws}/records               → { records: SyncRecord[], seq }
+ *   GET  {base}/workspaces/{ws}/records?after={seq}   → { records, seq }: records written after `seq`
+ *   PUT  {base}/workspaces/{ws}/records/{key}         body { record, expected }
+ *        200 { record }               written, with the server's updatedAt
+ *        409 { current }              the stored version is not `expected`
+ *        403 { error }                the caller's role may not write this record
+ *
+ * Every request carries the session token from `restAuth` (auth.ts) as a
+ * bearer token. The server decides, not this app: it answers 401 without a
+ * valid session, applies the role table of auth.ts to every PUT, and gives
+ * a driver only the records of their own trucks.
+ *
+ * The server numbers every write in a workspace (seq, counting up) and
+ * stamps updatedAt itself; `seq` in a reply is the latest number so far.
+ * Other people's writes are picked up by polling every `pollMs` for what
+ * came after the last number seen, so no client clock is involved.
+ */
+export const restAdapter = (
+  base: string,
+  workspace: ID,
+  opts: { headers?: Record<string, string>; token?: () => string | null; pollMs?: number } = {}
+): StorageAdapter => {
+  const root = `${base.replace(/\/+$/, "")}/workspaces/${encodeURIComponent(workspace)}`;
+  const call = async (path: string, init?: RequestInit, answers: number[] = []) => {
+    const token = opts.token?.();
+    const headers = { "Content-Type": "application/json", ...opts.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) };
+    const res = await fetch(`${root}${path}`, { ...init, headers });
+    const body = await res.json().catch(() => null);
+    if (!res.ok && !answers.includes(res.status)) throw new Error(`REST ${init?.method || "GET"} ${path}: ${res.status} ${res.statusText}${body?.error ? ` — ${body.error}` : ""}`);
+    return { status: res.status, body };
+  };
+  let seq = 0; // the latest write seen
+  const read = async (path: string): Promise<SyncRecord[]> => {
+    const { body } = await call(path);
+    if (typeof body?.seq === "number") seq = Math.max(seq, body.seq);
+    return body?.records || [];
+  };
+  return {
+    id: `rest:${root}`,
+    label: ADAPTER_LABELS.rest,
+    async pull() {
+      return read("/records");
+    },
+    async push(record, expected) {
+      const { status, body } = await call(`/records/${encodeURIComponent(record.key)}`, {
+        method: "PUT",
+        body: JSON.stringify({ record, expected }),
+      }, [403, 409]);
+      if (status === 403) return { ok: false, rejected: body?.error || "Forbidden" };
+      return status === 409 ? { ok: false, current: body.current } : { ok: true, record: body.record };
+    },
+    subscribe(on) {
+      let busy = false;
+      const poll = async () => {
+        if (busy) return;
+        busy = true;
+        try {
+          for (const r of await read(`/records?after=${seq}`)) on(r);
+        } catch {
+          // Unreachable for now; the next poll tries again
+        } finally {
+          busy = false;
+        }
+      };
+      const t = setInterval(poll, opts.pollMs ?? 5000);
+      return () => clearInterval(t);
+    },
+  };
+};
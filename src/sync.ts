@@ -0,0 +1,400 @@
+import type { ID, Settings } from "./model";
+import { STORED_KEYS, check, isListKey, listId } from "./schema";
+import type { ListKey, ListRecord, RecoveryItem, Stored, StoredKey } from "./schema";
+import type { DistanceMatrix } from "./travel";
+import type { StorageAdapter } from "./storage";
+
+/** =======================================
+ * Per-record sync
+ * Every truck, client, job, row, ... is its own shared record with a
+ * version. A write names the version it was based on and only succeeds if
+ * that is still the latest (compare-and-set), so nobody overwrites an edit
+ * they have not seen. Changes to different records, or to different fields
+ * of one record, merge on their own; only the same field edited on both
+ * sides is a conflict, which waits for the user to pick a side.
+ *
+ * Local edits wait in an outbox, oldest first, until the store takes them;
+ * while it cannot be reached they stay there (and in local storage) and go
+ * out in the same order once it can. Stores are adapters (storage.ts).
+ * ======================================= */
+export type RecordKey = string; // `${kind}:${id}`
+export type SyncRecord = {
+  key: RecordKey;
+  kind: StoredKey;
+  data: unknown | null; // null: deleted
+  version: number;
+  updatedBy: ID;
+  updatedAt: string;
+};
+/** A local edit not yet taken by the store */
+export type Outgoing = { key: RecordKey; data: unknown | null; at: string };
+
+export type Conflict = {
+  key: RecordKey;
+  kind: StoredKey;
+  mine: unknown | null;
+  theirs: SyncRecord;
+  fields: string[]; // edited on both sides
+};
+export type SyncState = "connecting" | "online" | "offline";
+export type SyncError = { message: string; at: string; attempts: number };
+export type SyncStatus = {
+  state: SyncState;
+  pending: number; // edits in the outbox
+  blocked: number; // local edits the role may not share
+  lastSync: Date | null;
+  error: SyncError | null; // the last failure, kept until the store answers again
+  retryAt: Date | null;
+};
+export const IDLE_STATUS: SyncStatus = { state: "connecting", pending: 0, blocked: 0, lastSync: null, error: null, retryAt: null };
+
+/** =======================================
+ * Records ⇄ state
+ * ======================================= */
+const SINGLE_ID = "shared"; // settings and the distance table are one record each
+
+export const recordKey = (kind: StoredKey, id: string): RecordKey => `${kind}:${id}`;
+export const kindOf = (key: RecordKey) => key.slice(0, key.indexOf(":")) as StoredKey;
+
+// The day and week someone is looking at are theirs, not shared
+const sharedSettings = (s: Settings) => {
+  const { activeDay, weekOf, ...rest } = s;
+  return rest;
+};
+const ownView = ({ activeDay, weekOf }: Settings) => (weekOf ? { activeDay, weekOf } : { activeDay });
+
+/** Every record of the state, by key */
+export const toRecords = (state: Stored): Map<RecordKey, unknown> => {
+  const out = new Map<RecordKey, unknown>();
+  for (const kind of STORED_KEYS) {
+    if (isListKey(kind)) {
+      const list: ListRecord[] = state[kind];
+      for (const rec of list) out.set(recordKey(kind, listId(rec)), rec);
+    }
+    else out.set(recordKey(kind, SINGLE_ID), kind === "settings" ? sharedSettings(state.settings) : state[kind]);
+  }
+  return out;
+};
+
+/** The keys of `state` that `changes` touch, with the changes applied (null deletes) */
+export const applyRecords = (state: Stored, changes: Map<RecordKey, unknown | null>): Partial<Stored> => {
+  const out: Partial<Stored> = {};
+  for (const kind of STORED_KEYS) {
+    const mine = [...changes].filter(([k]) => kindOf(k) === kind);
+    if (!mine.length) continue;
+    if (!isListKey(kind)) {
+      const data = mine[mine.length - 1][1];
+      if (data == null) continue;
+      if (kind === "settings") out.settings = { ...sharedSettings(data as Settings), ...ownView(state.settings) };
+      else out.matrix = data as DistanceMatrix;
+      continue;
+    }
+    // Records come through checkRecords (or from this state), so they have the list's shape
+    const byKey = new Map(mine as [RecordKey, ListRecord | null][]);
+    const list: ListRecord[] = state[kind];
+    // Known records keep their place; new ones go at the end
+    const kept = list
+      .filter((r) => byKey.get(recordKey(kind, listId(r))) !== null)
+      .map((r) => byKey.get(recordKey(kind, listId(r))) ?? r);
+    const have = new Set(list.map((r) => recordKey(kind, listId(r))));
+    const added = [...byKey].filter(([k, v]) => v != null && !have.has(k)).map(([, v]) => v!);
+    (out as Record<ListKey, ListRecord[]>)[kind] = [...kept, ...added];
+  }
+  return out;
+};
+
+/** Shared changes that pass the schema checks; the rest as recovery items */
+export const checkRecords = (changes: Map<RecordKey, unknown | null>): { changes: Map<RecordKey, unknown | null>; recovery: RecoveryItem[] } => {
+  const ok = new Map<RecordKey, unknown | null>();
+  const recovery: RecoveryItem[] = [];
+  for (const [key, data] of changes) {
+    const kind = kindOf(key);
+    if (data == null) {
+      ok.set(key, null);
+      continue;
+    }
+    const res = check({ [kind]: isListKey(kind) ? [data] : data });
+    recovery.push(...res.recovery);
+    const value = isListKey(kind) ? (res.state[kind] as unknown[])[0] : res.state[kind];
+    if (value !== undefined) ok.set(key, kind === "settings" ? sharedSettings(value as Settings) : value);
+  }
+  return { changes: ok, recovery };
+};
+
+/** =======================================
+ * Three-way merge of one record
+ * ======================================= */
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+/** `mine` and `theirs` merged field by field against `base`; `fields` lists what both changed differently */
+export const merge3 = (base: unknown, mine: unknown, theirs: unknown): { merged: unknown; fields: string[] } => {
+  if (same(mine, theirs)) return { merged: theirs, fields: [] };
+  if (same(mine, base)) return { merged: theirs, fields: [] };
+  if (same(theirs, base)) return { merged: mine, fields: [] };
+  if (!isObj(mine) || !isObj(theirs)) return { merged: mine, fields: ["*"] }; // deleted on one side, edited on the other
+  const b = isObj(base) ? base : {};
+  const merged: Record<string, unknown> = {};
+  const fields: string[] = [];
+  for (const f of new Set([...Object.keys(b), ...Object.keys(mine), ...Object.keys(theirs)])) {
+    const m = mine[f];
+    const t = theirs[f];
+    if (same(m, t) || same(t, b[f])) merged[f] = m;
+    else if (same(m, b[f])) merged[f] = t;
+    else {
+      merged[f] = m;
+      fields.push(f);
+    }
+    if (merged[f] === undefined) delete merged[f];
+  }
+  return { merged, fields };
+};
+
+/** =======================================
+ * Engine
+ * ======================================= */
+export type SyncOptions = {
+  adapter: StorageAdapter;
+  clientId: ID; // shown as who made a change
+  canWrite?: (kind: StoredKey, before: unknown | null, after: unknown | null) => boolean; // other edits stay local
+  shadow?: SyncRecord[]; // last known shared records, from a previous session
+  outbox?: Outgoing[]; // edits a previous session could not send
+  onApply: (changes: Map<RecordKey, unknown | null>) => void; // shared changes to put into local state
+  onConflicts: (conflicts: Conflict[]) => void;
+  onDropped?: (records: Map<RecordKey, unknown>) => void; // local records the shared store did not have on first connect, before they go
+  onPersist?: (shadow: SyncRecord[], outbox: Outgoing[]) => void;
+  onStatus?: (status: SyncStatus) => void;
+};
+
+const RETRY_MS = [2000, 5000, 15000, 30000, 60000];
+
+export const createSync = (opts: SyncOptions) => {
+  const { adapter, clientId } = opts;
+  const shadow = new Map<RecordKey, SyncRecord>((opts.shadow || []).map((r) => [r.key, r]));
+  let outbox: Outgoing[] = opts.outbox || [];
+  let local = new Map<RecordKey, unknown>();
+  const conflicts = new Map<RecordKey, Conflict>();
+  let status: SyncStatus = { ...IDLE_STATUS, pending: outbox.length };
+  let connected = false;
+  let stopped = false;
+  let flushing: Promise<void> | null = null;
+  let again = false;
+  let unsubscribe: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let blocked = 0;
+  const rejected = new Map<RecordKey, unknown | null>(); // what the store refused, until it is edited again
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, pending: outbox.length, blocked, ...patch };
+    opts.onStatus?.(status);
+  };
+  const emitConflicts = () => opts.onConflicts([...conflicts.values()]);
+  const persist = () => opts.onPersist?.([...shadow.values()], outbox);
+
+  // The outbox holds every record that differs from what was last shared, in
+  // the order of their latest edit; edits undone before sending drop out
+  const reconcile = () => {
+    const now = new Date().toISOString();
+    const diff = new Map<RecordKey, unknown | null>();
+    for (const [k, v] of local) if (!same(v, shadow.get(k)?.data ?? null)) diff.set(k, v);
+    for (const [k, r] of shadow) if (r.data != null && !local.has(k)) diff.set(k, null);
+    const denied = opts.canWrite ? [...diff.keys()].filter((k) => !opts.canWrite!(kindOf(k), shadow.get(k)?.data ?? null, diff.get(k) ?? null)) : [];
+    denied.forEach((k) => diff.delete(k));
+    for (const [k, v] of [...rejected]) if (!diff.has(k) || !same(diff.get(k), v)) rejected.delete(k);
+    rejected.forEach((_, k) => diff.delete(k));
+    blocked = denied.length + rejected.size;
+    const kept = outbox.filter((o) => diff.has(o.key) && same(o.data, diff.get(o.key)));
+    const have = new Set(kept.map((o) => o.key));
+    const added = [...diff].filter(([k]) => !have.has(k)).map(([key, data]) => ({ key, data, at: now }));
+    outbox = [...kept, ...added];
+    persist();
+  };
+
+  // A shared record newer than ours: take it, merge it, or flag a conflict
+  const receive = (r: SyncRecord, applied: Map<RecordKey, unknown | null>) => {
+    const base = shadow.get(r.key);
+    if (base && base.version >= r.version) return; // our own write coming back, or older news
+    const mine = local.has(r.key) ? local.get(r.key) : null;
+    const { merged, fields } = merge3(base?.data ?? null, mine, r.data);
+    shadow.set(r.key, r);
+    if (fields.length) {
+      conflicts.set(r.key, { key: r.key, kind: r.kind, mine, theirs: r, fields });
+      return;
+    }
+    conflicts.delete(r.key);
+    if (!same(merged, mine)) {
+      if (merged == null) local.delete(r.key);
+      else local.set(r.key, merged);
+      applied.set(r.key, merged);
+    }
+  };
+  const receiveAll = (records: SyncRecord[]) => {
+    const applied = new Map<RecordKey, unknown | null>();
+    for (const r of records) receive(r, applied);
+    if (applied.size) opts.onApply(applied);
+    reconcile();
+    emitConflicts();
+  };
+
+  // Could not reach the store: keep everything queued and try again later
+  const failed = (e: unknown) => {
+    connected = false;
+    unsubscribe?.();
+    unsubscribe = null;
+    attempts++;
+    const wait = RETRY_MS[Math.min(attempts, RETRY_MS.length) - 1];
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = stopped ? null : setTimeout(() => void connect(), wait);
+    setStatus({
+      state: "offline",
+      error: { message: e instanceof Error ? e.message : String(e), at: new Date().toISOString(), attempts },
+      retryAt: new Date(Date.now() + wait),
+    });
+  };
+
+  // Send the outbox oldest first; edits with an open conflict wait for the user
+  const flushOnce = async () => {
+    const applied = new Map<RecordKey, unknown | null>();
+    for (const item of [...outbox]) {
+      if (!outbox.includes(item) || conflicts.has(item.key)) continue; // settled by a merge on the way
+      const expected = shadow.get(item.key)?.version ?? 0;
+      const record: SyncRecord = {
+        key: item.key,
+        kind: kindOf(item.key),
+        data: item.data,
+        version: expected + 1,
+        updatedBy: clientId,
+        updatedAt: new Date().toISOString(),
+      };
+      const res = await adapter.push(record, expected);
+      if (res.ok) shadow.set(item.key, res.record);
+      else if ("rejected" in res) rejected.set(item.key, item.data); // kept here, counted as blocked
+      else {
+        receive(res.current, applied); // someone wrote first: merge, then try again
+        again = true;
+      }
+      outbox = outbox.filter((o) => o !== item);
+      reconcile();
+    }
+    if (applied.size) opts.onApply(applied);
+    emitConflicts();
+  };
+  const flush = (): Promise<void> => {
+    if (!connected) return Promise.resolve();
+    if (flushing) {
+      again = true;
+      return flushing;
+    }
+    flushing = (async () => {
+      try {
+        do {
+          again = false;
+          await flushOnce();
+        } while (again && connected);
+        setStatus({ lastSync: new Date() });
+      } catch (e) {
+        failed(e);
+      } finally {
+        flushing = null;
+      }
+    })();
+    return flushing;
+  };
+
+  // Read everything shared, catch up, listen, then send what waited
+  const connect = async () => {
+    if (stopped) return;
+    retryTimer = null;
+    setStatus({ state: "connecting", retryAt: null });
+    try {
+      const remote = await adapter.pull();
+      if (stopped) return;
+      if (!shadow.size && remote.length) {
+        // First time in this browser: the shared data is taken as it is, with
+        // what was queued for it on top (e.g. records copied in from another
+        // workspace before this one was ever opened here). Other local records
+        // are handed to `onDropped` first, so nothing goes without a copy.
+        const applied = new Map<RecordKey, unknown | null>();
+        const queued = new Map(outbox.map((o) => [o.key, o.data]));
+        const dropped = new Map([...local].filter(([k]) => !queued.has(k) && !remote.some((r) => r.key === k)));
+        if (dropped.size) opts.onDropped?.(dropped);
+        for (const r of remote) {
+          shadow.set(r.key, r);
+          const data = queued.has(r.key) ? queued.get(r.key) ?? null : r.data;
+          if (!same(local.get(r.key) ?? null, data)) applied.set(r.key, data);
+          if (data == null) local.delete(r.key);
+          else local.set(r.key, data);
+        }
+        for (const k of dropped.keys()) {
+          applied.set(k, null);
+          local.delete(k);
+        }
+        for (const [k, data] of queued) if (!shadow.has(k) && data != null && !same(local.get(k), data)) {
+          applied.set(k, data);
+          local.set(k, data);
+        }
+        if (applied.size) opts.onApply(applied);
+        reconcile();
+      } else receiveAll(remote);
+      unsubscribe?.();
+      unsubscribe = adapter.subscribe((r) => {
+        receiveAll([r]);
+        setStatus({ lastSync: new Date() });
+      });
+      connected = true;
+      attempts = 0;
+      setStatus({ state: "online", error: null, retryAt: null });
+      await flush();
+    } catch (e) {
+      failed(e);
+    }
+  };
+
+  return {
+    /** Start from the local state; works offline until the store answers */
+    start(state: Stored) {
+      local = toRecords(state);
+      if (shadow.size) reconcile();
+      setStatus({});
+      return connect();
+    },
+    /** The local state changed: queue what differs and send it */
+    update(state: Stored) {
+      local = toRecords(state);
+      reconcile();
+      setStatus({});
+      return flush();
+    },
+    /** Try now instead of waiting for the next retry */
+    retry() {
+      if (connected || stopped) return Promise.resolve();
+      if (retryTimer) clearTimeout(retryTimer);
+      return connect();
+    },
+    /** Settle a conflict; "mine" is written over theirs */
+    resolve(key: RecordKey, choice: "mine" | "theirs") {
+      const c = conflicts.get(key);
+      if (!c) return Promise.resolve();
+      conflicts.delete(key);
+      if (choice === "theirs") {
+        if (c.theirs.data == null) local.delete(key);
+        else local.set(key, c.theirs.data);
+        opts.onApply(new Map([[key, c.theirs.data]]));
+      }
+      reconcile();
+      emitConflicts();
+      return flush();
+    },
+    stop() {
+      stopped = true;
+      connected = false;
+      if (retryTimer) clearTimeout(retryTimer);
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+    conflicts: () => [...conflicts.values()],
+    status: () => status,
+  };
+};
+export type Sync = ReturnType<typeof createSync>;
@@ -0,0 +1,281 @@
+import {
+  DAYS,
+  dateOfDay,
+  isBreak,
+  isHHMM,
+  segmentsFor,
+  toHHMM,
+  uid,
+} from "./model";
+import type { Client, DayKey, GeoPoint, ID, Job, JobType, LoadSize, ScheduledRow, Truck } from "./model";
+import { parseLatLng, withTravel } from "./travel";
+import type { TravelCtx } from "./travel";
+import type { Table } from "./spreadsheet";
+
+/** =======================================
+ * Import & export tables
+ * Pure: maps spreadsheet columns onto Job / Client fields and validates
+ * every line before anything is committed; builds the schedule export.
+ * ======================================= */
+export type ImportTarget = "jobs" | "clients";
+export type ImportField = { key: string; label: string; required?: boolean; aliases: string[] };
+export type Mapping = Record<string, number | null>; // field key → column index
+export type ImportLine<T> = { line: number; value?: T; errors: string[]; note?: string };
+
+export const JOB_FIELDS: ImportField[] = [
+  { key: "type", label: "Type", required: true, aliases: ["type", "job type", "kind"] },
+  { key: "title", label: "Title", aliases: ["title", "job", "description", "order", "reference", "ref"] },
+  { key: "client", label: "Client", aliases: ["client", "customer", "site", "client name"] },
+  { key: "days", label: "Days", aliases: ["days", "day", "weekday"] },
+  { key: "loadMin", label: "Load (min)", aliases: ["load", "load min", "loading"] },
+  { key: "travelMin", label: "Travel (min)", aliases: ["travel", "travel min", "drive"] },
+  { key: "onsiteMin", label: "On-site (min)", aliases: ["onsite", "on-site", "on site", "offload", "unload"] },
+  { key: "returnTravelMin", label: "Return (min)", aliases: ["return", "return min", "return travel"] },
+  { key: "earliest", label: "Earliest", aliases: ["earliest", "from", "window from", "window start"] },
+  { key: "latest", label: "Latest", aliases: ["latest", "to", "until", "window to", "window end"] },
+  { key: "windowMode", label: "Window (hard/soft)", aliases: ["window", "window mode", "hard"] },
+  { key: "weightKg", label: "Weight (kg)", aliases: ["weight", "kg", "weight kg"] },
+  { key: "pallets", label: "Pallets", aliases: ["pallets", "pallet"] },
+  { key: "volumeM3", label: "Volume (m³)", aliases: ["volume", "m3", "m³", "volume m3"] },
+  { key: "truck", label: "Preferred truck", aliases: ["truck", "vehicle", "preferred truck"] },
+  { key: "notes", label: "Notes", aliases: ["notes", "note", "comments", "instructions"] },
+];
+
+export const CLIENT_FIELDS: ImportField[] = [
+  { key: "name", label: "Name", required: true, aliases: ["name", "client", "customer", "client name"] },
+  { key: "address", label: "Address", aliases: ["address", "street", "location"] },
+  { key: "lat", label: "Latitude", aliases: ["lat", "latitude"] },
+  { key: "lng", label: "Longitude", aliases: ["lng", "lon", "long", "longitude"] },
+  { key: "defaultTravelMin", label: "Default travel (min)", aliases: ["travel", "default travel", "travel min"] },
+  { key: "defaultOnsiteMin", label: "Default on-site (min)", aliases: ["onsite", "on-site", "default on-site", "on site"] },
+  { key: "notes", label: "Notes", aliases: ["notes", "note", "comments"] },
+];
+
+const norm = (v: string) => v.trim().toLowerCase().replace(/[_()]/g, " ").replace(/\s+/g, " ").trim();
+
+/** Column for each field, matched on header names */
+export const guessMapping = (fields: ImportField[], header: string[]): Mapping => {
+  const cols = header.map(norm);
+  const used = new Set<number>();
+  const out: Mapping = {};
+  for (const f of fields) {
+    const i = cols.findIndex((c, k) => !used.has(k) && (c === norm(f.label) || f.aliases.includes(c)));
+    out[f.key] = i >= 0 ? i : null;
+    if (i >= 0) used.add(i);
+  }
+  return out;
+};
+
+const cellOf = (row: string[], mapping: Mapping, key: string) => {
+  const i = mapping[key];
+  return i == null ? "" : (row[i] ?? "").trim();
+};
+
+// Whole minutes >= 0; "" → undefined
+const minutes = (v: string, label: string, errors: string[]) => {
+  if (v === "") return undefined;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) {
+    errors.push(`${label} "${v}" is not a number of minutes`);
+    return undefined;
+  }
+  return Math.round(n);
+};
+const amount = (v: string, label: string, errors: string[]) => {
+  if (v === "") return undefined;
+  const n = Number(v.replace(",", "."));
+  if (!Number.isFinite(n) || n < 0) {
+    errors.push(`${label} "${v}" is not a number`);
+    return undefined;
+  }
+  return n;
+};
+
+const TYPES: Record<string, JobType> = { delivery: "Delivery", d: "Delivery", collection: "Collection", c: "Collection", pickup: "Collection" };
+
+// "Mon, Wed" / "mon wed" / "Monday"
+const parseDays = (v: string, errors: string[]): DayKey[] | undefined => {
+  if (v === "") return undefined;
+  const out: DayKey[] = [];
+  for (const part of v.split(/[\s,;/]+/).filter(Boolean)) {
+    const day = DAYS.find((d) => d.toLowerCase() === part.slice(0, 3).toLowerCase());
+    if (!day) errors.push(`Unknown day "${part}"`);
+    else if (!out.includes(day)) out.push(day);
+  }
+  return DAYS.filter((d) => out.includes(d));
+};
+
+export type JobImportCtx = {
+  clients: Client[];
+  trucks: Truck[];
+  fallbackDay: DayKey;
+  createClients: boolean; // unknown client names become new clients instead of errors
+  travel?: TravelCtx;
+};
+
+/** Jobs from a table (header row first); clients to create for unknown names */
+export const importJobs = (table: Table, mapping: Mapping, ctx: JobImportCtx): { lines: ImportLine<Job>[]; newClients: Client[] } => {
+  const byName = new Map(ctx.clients.map((c) => [norm(c.name), c]));
+  const truckByName = new Map(ctx.trucks.map((t) => [norm(t.name), t]));
+  const newClients: Client[] = [];
+  const lines = table.slice(1).map((row, i): ImportLine<Job> => {
+    const errors: string[] = [];
+    const get = (k: string) => cellOf(row, mapping, k);
+
+    const type = TYPES[norm(get("type"))];
+    if (!type) errors.push(get("type") ? `Type "${get("type")}" is not Delivery or Collection` : "Type is missing");
+
+    let client: Client | undefined;
+    let note: string | undefined;
+    const clientName = get("client");
+    if (clientName) {
+      client = byName.get(norm(clientName));
+      if (!client && ctx.createClients) {
+        client = { id: uid(), name: clientName, defaultTravelMin: 30, defaultOnsiteMin: 30 };
+        byName.set(norm(clientName), client);
+        newClients.push(client);
+        note = `new client ${clientName}`;
+      } else if (!client) errors.push(`Unknown client "${clientName}"`);
+    }
+
+    const truckName = get("truck");
+    const truck = truckName ? truckByName.get(norm(truckName)) : undefined;
+    if (truckName && !truck) errors.push(`Unknown truck "${truckName}"`);
+
+    const earliest = get("earliest");
+    const latest = get("latest");
+    if (earliest && !isHHMM(earliest)) errors.push(`Earliest "${earliest}" is not HH:MM`);
+    if (latest && !isHHMM(latest)) errors.push(`Latest "${latest}" is not HH:MM`);
+    const mode = norm(get("windowMode"));
+    if (mode && mode !== "hard" && mode !== "soft") errors.push(`Window "${get("windowMode")}" is not hard or soft`);
+
+    const size: LoadSize = {
+      weightKg: amount(get("weightKg"), "Weight", errors),
+      pallets: amount(get("pallets"), "Pallets", errors),
+      volumeM3: amount(get("volumeM3"), "Volume", errors),
+    };
+    const loadMin = minutes(get("loadMin"), "Load", errors);
+    const travelMin = minutes(get("travelMin"), "Travel", errors);
+    const onsiteMin = minutes(get("onsiteMin"), "On-site", errors);
+    const returnTravelMin = minutes(get("returnTravelMin"), "Return", errors);
+    const days = parseDays(get("days"), errors);
+
+    if (errors.length || !type) return { line: i + 2, errors };
+    const job: Job = {
+      id: uid(),
+      type,
+      title: get("title") || `${type} Job`,
+      clientId: client?.id ?? null,
+      loadMin: loadMin ?? 30,
+      travelMin: travelMin ?? client?.defaultTravelMin ?? 30,
+      onsiteMin: onsiteMin ?? client?.defaultOnsiteMin ?? 30,
+      returnTravelMin: returnTravelMin ?? (type === "Collection" ? travelMin ?? client?.defaultTravelMin ?? 30 : 0),
+      travelManual: travelMin != null || returnTravelMin != null ? true : undefined,
+      earliest: earliest || undefined,
+      latest: latest || undefined,
+      windowMode: mode === "hard" ? "hard" : undefined,
+      size: Object.values(size).some((v) => v != null) ? size : undefined,
+      days: days?.length ? days : [ctx.fallbackDay],
+      truckId: truck?.id ?? null,
+      notes: get("notes") || undefined,
+    };
+    // Travel from locations, unless the sheet gave it
+    const travel = ctx.travel && { ...ctx.travel, clientById: new Map([...ctx.travel.clientById, ...newClients.map((c) => [c.id, c] as const)]) };
+    return { line: i + 2, value: travel ? withTravel(job, travel) : job, errors, note };
+  });
+  return { lines, newClients: newClients.filter((c) => lines.some((l) => l.value?.clientId === c.id)) };
+};
+
+/** Clients from a table; a name that already exists updates that client */
+export const importClients = (table: Table, mapping: Mapping, clients: Client[]): ImportLine<Client>[] => {
+  const byName = new Map(clients.map((c) => [norm(c.name), c]));
+  const seen = new Set<string>();
+  return table.slice(1).map((row, i) => {
+    const errors: string[] = [];
+    const get = (k: string) => cellOf(row, mapping, k);
+    const name = get("name");
+    if (!name) errors.push("Name is missing");
+    else if (seen.has(norm(name))) errors.push(`"${name}" appears twice in the file`);
+    seen.add(norm(name));
+
+    let location: GeoPoint | undefined;
+    if (get("lat") || get("lng")) {
+      location = parseLatLng(`${get("lat")}, ${get("lng")}`);
+      if (!location) errors.push(`"${get("lat")}, ${get("lng")}" is not a valid latitude, longitude`);
+    }
+    const defaultTravelMin = minutes(get("defaultTravelMin"), "Default travel", errors);
+    const defaultOnsiteMin = minutes(get("defaultOnsiteMin"), "Default on-site", errors);
+    if (errors.length) return { line: i + 2, errors };
+
+    const existing = byName.get(norm(name));
+    const value: Client = {
+      ...(existing || { id: uid(), name, defaultTravelMin: 30, defaultOnsiteMin: 30 }),
+      ...(get("address") ? { address: get("address") } : {}),
+      ...(location ? { location } : {}),
+      ...(defaultTravelMin != null ? { defaultTravelMin } : {}),
+      ...(defaultOnsiteMin != null ? { defaultOnsiteMin } : {}),
+      ...(get("notes") ? { notes: get("notes") } : {}),
+    };
+    return { line: i + 2, value, errors, note: existing ? "updates existing client" : undefined };
+  });
+};
+
+/** =======================================
+ * Schedule export
+ * ======================================= */
+export type ExportCtx = {
+  weekOf: string;
+  jobOf: (r: ScheduledRow) => Job | undefined; // run stops as their part of the run
+  truckById: Map<ID, Truck>;
+  clientById: Map<ID, Client>;
+  driverName: (truckId: ID, day: DayKey) => string;
+  breakLabel: (r: ScheduledRow) => string;
+};
+
+// Segment labels differ by job type; exports have one column per phase
+export const PHASES = ["Load", "Travel", "On-site", "Return"] as const;
+export type Phase = (typeof PHASES)[number];
+const PHASE_OF: Record<string, Phase> = {
+  Load: "Load",
+  "Off-site load": "Load",
+  Travel: "Travel",
+  Offload: "On-site",
+  "On-site": "On-site",
+  Return: "Return",
+};
+
+/** "HH:MM–HH:MM" of each phase of job `j` starting at `start` */
+export const phaseTimes = (j: Job, start: number): Partial<Record<Phase, string>> => {
+  const out: Partial<Record<Phase, string>> = {};
+  let t = start;
+  for (const sg of segmentsFor(j)) {
+    out[PHASE_OF[sg.label]] = `${toHHMM(t)}–${toHHMM(t + sg.minutes)}`;
+    t += sg.minutes;
+  }
+  return out;
+};
+
+export const SCHEDULE_HEADER = ["Day", "Date", "Truck", "Driver", "Start", "End", "Type", "Client", "Job", "Run stop", ...PHASES, "Notes"];
+
+/** One line per scheduled row on `days`, by day, truck and start */
+export const scheduleTable = (rows: ScheduledRow[], days: DayKey[], ctx: ExportCtx): (string | number)[][] => {
+  const dayIdx = (d: DayKey) => DAYS.indexOf(d);
+  const truckName = (id: ID) => ctx.truckById.get(id)?.name || "";
+  const runPos = new Map<ID, number>();
+  const runs = new Map<ID, ScheduledRow[]>();
+  for (const r of rows) if (r.runId) runs.set(r.runId, [...(runs.get(r.runId) || []), r]);
+  for (const list of runs.values()) list.sort((a, b) => a.startMin - b.startMin).forEach((r, i) => runPos.set(r.id, i + 1));
+
+  const body = rows
+    .filter((r) => days.includes(r.day) && (isBreak(r) || ctx.jobOf(r)))
+    .sort((a, b) => dayIdx(a.day) - dayIdx(b.day) || truckName(a.truckId).localeCompare(truckName(b.truckId)) || a.startMin - b.startMin)
+    .map((r) => {
+      const base = [r.day, dateOfDay(ctx.weekOf, r.day), truckName(r.truckId), ctx.driverName(r.truckId, r.day), toHHMM(r.startMin), toHHMM(r.endMin)];
+      if (isBreak(r)) return [...base, "Break", "", ctx.breakLabel(r), "", ...PHASES.map(() => ""), ""];
+      const j = ctx.jobOf(r)!;
+      const phase = phaseTimes(j, r.startMin);
+      const client = j.clientId ? ctx.clientById.get(j.clientId)?.name || "" : "";
+      return [...base, j.type, client, j.title, runPos.get(r.id) ?? "", ...PHASES.map((p) => phase[p] || ""), j.notes || ""];
+    });
+  return [SCHEDULE_HEADER, ...body];
+};
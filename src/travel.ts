@@ -0,0 +1,93 @@
+import type { Client, GeoPoint, ID, Job, Site, TemplateJob, TravelModel } from "./model";
+
+/** =======================================
+ * Travel times
+ * Pure: minutes between the depot and client sites, from coordinates
+ * (straight line at an average speed) or from a locally stored distance
+ * matrix. Jobs whose travel was typed in by hand are left alone.
+ * ======================================= */
+export const DEPOT_ID = "depot";
+export const DEFAULT_TRAVEL: TravelModel = { speedKmh: 50, useMatrix: false };
+
+// Minutes per leg, keyed by `${fromId}>${toId}` (DEPOT_ID or a client id)
+export type DistanceMatrix = Record<string, number>;
+export const matrixKey = (from: ID, to: ID) => `${from}>${to}`;
+
+export type TravelCtx = {
+  depot?: Site;
+  clientById: Map<ID, Client>;
+  model: TravelModel;
+  matrix: DistanceMatrix;
+};
+
+const EARTH_KM = 6371;
+export const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_KM * Math.asin(Math.sqrt(h));
+};
+
+// Rounded up to 5 minutes, so computed blocks stay on a readable grid
+const roundUp5 = (m: number) => Math.max(5, Math.ceil(m / 5) * 5);
+
+/** Minutes from one site to another, or undefined when neither the matrix nor coordinates know */
+export const legMinutes = (ctx: TravelCtx, fromId: ID, from: GeoPoint | undefined, toId: ID, to: GeoPoint | undefined) => {
+  if (ctx.model.useMatrix) {
+    const m = ctx.matrix[matrixKey(fromId, toId)] ?? ctx.matrix[matrixKey(toId, fromId)];
+    if (m != null) return m;
+  }
+  if (!from || !to || ctx.model.speedKmh <= 0) return undefined;
+  return roundUp5((distanceKm(from, to) / ctx.model.speedKmh) * 60);
+};
+
+/** Computed travel for a job's client, or undefined when it cannot be worked out */
+export const computedTravel = (j: Pick<Job, "clientId" | "type" | "returnTravelMin">, ctx: TravelCtx) => {
+  const client = j.clientId ? ctx.clientById.get(j.clientId) : undefined;
+  if (!client) return undefined;
+  const out = legMinutes(ctx, DEPOT_ID, ctx.depot?.location, client.id, client.location);
+  if (out == null) return undefined;
+  const back = legMinutes(ctx, client.id, client.location, DEPOT_ID, ctx.depot?.location) ?? out;
+  // A Delivery only gets a return leg when it already has one
+  return { travelMin: out, returnTravelMin: j.type === "Collection" || j.returnTravelMin > 0 ? back : 0 };
+};
+
+/** `j` with computed travel; the same object when nothing changes */
+export const withTravel = <T extends TemplateJob>(j: T, ctx: TravelCtx): T => {
+  if (j.travelManual) return j;
+  const t = computedTravel(j, ctx);
+  if (!t || (t.travelMin === j.travelMin && t.returnTravelMin === j.returnTravelMin)) return j;
+  return { ...j, ...t };
+};
+
+/** "51.5, -0.12" → point */
+export const parseLatLng = (v: string): GeoPoint | undefined => {
+  const m = /^\s*(-?\d+(?:\.\d+)?)\s*[,; ]\s*(-?\d+(?:\.\d+)?)\s*$/.exec(v);
+  if (!m) return undefined;
+  const lat = parseFloat(m[1]);
+  const lng = parseFloat(m[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : undefined;
+};
+export const latLngLabel = (p?: GeoPoint) => (p ? `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}` : "");
+
+/** CSV lines "from,to,minutes"; sites by client name or "Depot" */
+export const parseMatrixCSV = (text: string, clients: Client[]): { matrix: DistanceMatrix; errors: string[] } => {
+  const idByName = new Map(clients.map((c) => [c.name.trim().toLowerCase(), c.id]));
+  idByName.set("depot", DEPOT_ID);
+  const matrix: DistanceMatrix = {};
+  const errors: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const cells = line.split(/[,;\t]/).map((c) => c.trim().replace(/^"|"$/g, ""));
+    if (cells.every((c) => !c)) return;
+    const [from, to, minutes] = cells;
+    const mins = parseFloat(minutes);
+    if (i === 0 && isNaN(mins)) return; // header
+    const fromId = idByName.get((from || "").toLowerCase());
+    const toId = idByName.get((to || "").toLowerCase());
+    if (!fromId || !toId) errors.push(`Line ${i + 1}: unknown site "${!fromId ? from : to}"`);
+    else if (isNaN(mins) || mins < 0) errors.push(`Line ${i + 1}: "${minutes}" is not a number of minutes`);
+    else matrix[matrixKey(fromId, toId)] = Math.round(mins);
+  });
+  return { matrix, errors };
+};
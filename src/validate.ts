@@ -0,0 +1,305 @@
+import {
+  DAYS,
+  breachLabel,
+  isBreak,
+  isHardWindow,
+  jobDuration,
+  toHHMM,
+  toMin,
+  windowBreach,
+} from "./model";
+import type { Client, DayKey, Driver, DriverAssignment, ID, Job, ScheduledRow, Settings, Truck } from "./model";
+import { blockAt, unavailabilityLabel } from "./availability";
+import { breakRow, missingBreaks } from "./breaks";
+import { delayOf } from "./delays";
+import { capacityProblem, exceeds } from "./capacity";
+import { driverFor, driverProblem } from "./drivers";
+import { retimeRun, runsOf, stopJobsByRow } from "./runs";
+import type { TravelCtx } from "./travel";
+
+/** =======================================
+ * Schedule validation
+ * Pure: checks the scheduled rows against jobs, trucks and settings and
+ * returns typed issues. A fix is only offered when applying it cannot
+ * create a new conflict.
+ * ======================================= */
+export type IssueKind = "overlap" | "buffer" | "out-of-hours" | "window" | "duration" | "preferred-truck" | "capacity" | "driver" | "break" | "unavailable";
+export type IssueSeverity = "error" | "warning";
+export type IssueFix = { label: string; rows: ScheduledRow[] }; // replacement rows, matched by id; new ids are added
+export type Issue = {
+  id: string;
+  kind: IssueKind;
+  severity: IssueSeverity;
+  day: DayKey;
+  truckId: ID;
+  rowIds: ID[];
+  message: string;
+  fix?: IssueFix;
+};
+
+export type ValidateInput = {
+  scheduled: ScheduledRow[];
+  jobs: Job[];
+  trucks: Truck[];
+  clients: Client[];
+  settings: Settings;
+  drivers?: Driver[];
+  assignments?: DriverAssignment[];
+  travel?: TravelCtx; // stop-to-stop travel in multi-stop runs
+};
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  overlap: "Overlap",
+  buffer: "Buffer",
+  "out-of-hours": "Out of hours",
+  window: "Time window",
+  duration: "Duration",
+  "preferred-truck": "Preferred truck",
+  capacity: "Capacity",
+  driver: "Driver",
+  break: "Rest break",
+  unavailable: "Truck unavailable",
+};
+
+export const validateSchedule = ({
+  scheduled,
+  jobs,
+  trucks,
+  clients,
+  settings,
+  drivers = [],
+  assignments = [],
+  travel,
+}: ValidateInput): Issue[] => {
+  const dayStart = toMin(settings.startTime);
+  const dayEnd = toMin(settings.endTime);
+  const buffer = Math.max(0, settings.bufferBetweenJobs);
+  const step = Math.max(1, settings.gap);
+  const snapUp = (m: number) => Math.ceil(m / step) * step;
+  const snapDown = (m: number) => Math.floor(m / step) * step;
+
+  const jobById = new Map(jobs.map((j) => [j.id, j]));
+  const clientById = new Map(clients.map((c) => [c.id, c]));
+  const truckById = new Map(trucks.map((t) => [t.id, t]));
+  const ruleById = new Map((settings.breakRules || []).map((b) => [b.id, b]));
+  const rows = scheduled.filter((r) => isBreak(r) || jobById.has(r.jobId));
+  const issues: Issue[] = [];
+  // Run stops are checked as the part of the run they cover
+  const stopJob = stopJobsByRow(rows, jobById, travel);
+  const jobOf = (r: ScheduledRow) => stopJob.get(r.id) || jobById.get(r.jobId);
+
+  const label = (r: ScheduledRow) => {
+    if (isBreak(r)) return (r.ruleId && ruleById.get(r.ruleId)?.label) || "Break";
+    const j = jobById.get(r.jobId)!;
+    return `${j.type}: ${(j.clientId && clientById.get(j.clientId)?.name) || j.title}`;
+  };
+  const span = (r: ScheduledRow) => `${toHHMM(r.startMin)}–${toHHMM(r.endMin)}`;
+
+  // No buffer is needed next to a break or between stops of one run
+  const pad = (a: ScheduledRow, b: ScheduledRow) => (isBreak(a) || isBreak(b) || (a.runId && a.runId === b.runId) ? 0 : buffer);
+  // Would `c` sit cleanly on its truck-day, ignoring the rows it replaces?
+  const fits = (c: ScheduledRow, replaced: ID[] = [c.id]) => {
+    if (c.startMin < dayStart || c.endMin > dayEnd) return false;
+    if (blockAt(truckById.get(c.truckId), c.day, c.startMin, c.endMin)) return false;
+    const j = jobOf(c);
+    if (j && isHardWindow(j) && windowBreach(j, c.startMin).total > 0) return false;
+    return !rows.some(
+      (r) =>
+        !replaced.includes(r.id) &&
+        r.day === c.day &&
+        r.truckId === c.truckId &&
+        c.startMin < r.endMin + pad(r, c) &&
+        c.endMin + pad(r, c) > r.startMin
+    );
+  };
+  const fixIfFits = (text: string, c: ScheduledRow): IssueFix | undefined => (fits(c) ? { label: text, rows: [c] } : undefined);
+  const shiftTo = (r: ScheduledRow, st: number): ScheduledRow => ({ ...r, startMin: st, endMin: st + (r.endMin - r.startMin) });
+
+  // Same row on another truck, as close to its current start as possible
+  const reassign = (r: ScheduledRow): ScheduledRow | undefined => {
+    const j = jobById.get(r.jobId)!;
+    const len = r.endMin - r.startMin;
+    let best: ScheduledRow | undefined;
+    for (const t of trucks) {
+      if (t.id === r.truckId || exceeds(j.size, t.capacity)) continue;
+      for (let st = snapUp(dayStart); st + len <= dayEnd; st += step) {
+        const c = { ...r, truckId: t.id, startMin: st, endMin: st + len };
+        if (best && Math.abs(st - r.startMin) >= Math.abs(best.startMin - r.startMin)) continue;
+        if (fits(c)) best = c;
+      }
+    }
+    return best;
+  };
+
+  const push = (i: Omit<Issue, "id">) => issues.push({ ...i, id: `${i.kind}:${i.rowIds.join("+")}` });
+
+  // Per truck-day: overlaps, buffers, running load, driver limits and breaks
+  const groups = new Map<string, ScheduledRow[]>();
+  for (const r of rows) {
+    const k = `${r.day}|${r.truckId}`;
+    groups.set(k, [...(groups.get(k) || []), r]);
+  }
+  for (const list of groups.values()) {
+    list.sort((a, b) => a.startMin - b.startMin || a.endMin - b.endMin);
+    const truck = truckById.get(list[0].truckId);
+    const jobRows = list.filter((r) => !isBreak(r));
+    const cap = capacityProblem(truck, jobRows.map((r) => jobOf(r)!), jobRows.map((r) => r.runId));
+    if (cap) {
+      const r = list.find((x) => x.jobId === cap.job.id)!;
+      push({
+        kind: "capacity",
+        severity: "error",
+        day: r.day,
+        truckId: r.truckId,
+        rowIds: [r.id],
+        message: `${label(r)}: ${cap.message}`,
+      });
+    }
+    const driver = driverFor(drivers, assignments, list[0].truckId, list[0].day);
+    // Flag the first row that takes the driver over a limit
+    for (let n = 1; driver && n <= jobRows.length; n++) {
+      const problem = driverProblem(driver, list[0].day, jobRows.slice(0, n).map((r) => ({ job: jobOf(r)!, start: r.startMin, end: r.endMin })));
+      if (!problem) continue;
+      const r = jobRows[n - 1];
+      push({
+        kind: "driver",
+        severity: "error",
+        day: r.day,
+        truckId: r.truckId,
+        rowIds: [r.id],
+        message: `${label(r)}: ${problem}`,
+      });
+      break;
+    }
+    for (const m of missingBreaks(settings.breakRules || [], list, jobOf)) {
+      const r = list.find((x) => x.id === m.rowId)!;
+      const add = m.gap && breakRow(r.truckId, r.day, m.gap.start, m.rule);
+      push({
+        kind: "break",
+        severity: "warning",
+        day: r.day,
+        truckId: r.truckId,
+        rowIds: [r.id],
+        message: `${label(r)}: ${m.message}`,
+        fix: add && fits(add) ? { label: `Add ${m.rule.label.toLowerCase()} at ${toHHMM(add.startMin)}`, rows: [add] } : undefined,
+      });
+    }
+    for (let i = 0; i < list.length; i++) {
+      const a = list[i];
+      for (let k = i + 1; k < list.length && list[k].startMin < a.endMin; k++) {
+        const b = list[k];
+        push({
+          kind: "overlap",
+          severity: "error",
+          day: a.day,
+          truckId: a.truckId,
+          rowIds: [a.id, b.id],
+          message: `${label(a)} (${span(a)}) overlaps ${label(b)} (${span(b)})`,
+          fix: b.runId ? undefined : fixIfFits(`Move ${label(b)} after ${label(a)}`, shiftTo(b, snapUp(a.endMin + pad(a, b)))),
+        });
+      }
+      const next = list[i + 1];
+      if (next && pad(a, next) > 0 && next.startMin >= a.endMin && next.startMin - a.endMin < buffer) {
+        push({
+          kind: "buffer",
+          severity: "warning",
+          day: a.day,
+          truckId: a.truckId,
+          rowIds: [a.id, next.id],
+          message: `Only ${next.startMin - a.endMin} min between ${label(a)} and ${label(next)} (buffer ${buffer} min)`,
+          fix: next.runId
+            ? undefined
+            : fixIfFits(`Start ${label(next)} at ${toHHMM(snapUp(a.endMin + buffer))}`, shiftTo(next, snapUp(a.endMin + buffer))),
+        });
+      }
+    }
+  }
+
+  // Per row: hours, windows, durations, preferred truck
+  const staleRuns = new Set<ID>();
+  for (const r of rows) {
+    const base = { day: r.day, truckId: r.truckId, rowIds: [r.id] };
+
+    if (r.startMin < dayStart || r.endMin > dayEnd) {
+      const st = r.startMin < dayStart ? snapUp(dayStart) : snapDown(dayEnd - (r.endMin - r.startMin));
+      push({
+        ...base,
+        kind: "out-of-hours",
+        severity: "error",
+        message: `${label(r)} (${span(r)}) is outside ${settings.startTime}–${settings.endTime}`,
+        fix: r.runId ? undefined : fixIfFits(`Move to ${toHHMM(st)}`, shiftTo(r, st)),
+      });
+    }
+    if (isBreak(r)) continue;
+    const j = jobOf(r)!;
+
+    const blk = blockAt(truckById.get(r.truckId), r.day, r.startMin, r.endMin);
+    if (blk) {
+      const moved = r.runId ? undefined : reassign(r);
+      push({
+        ...base,
+        kind: "unavailable",
+        severity: "error",
+        message: `${label(r)} (${span(r)}) falls in ${truckById.get(r.truckId)!.name}'s unavailability ${unavailabilityLabel(blk)}`,
+        fix: moved && {
+          label: `Move to ${truckById.get(moved.truckId)!.name} at ${toHHMM(moved.startMin)}`,
+          rows: [moved],
+        },
+      });
+    }
+
+    const b = windowBreach(j, r.startMin);
+    if (b.total > 0) {
+      push({
+        ...base,
+        kind: "window",
+        severity: isHardWindow(j) ? "error" : "warning",
+        message: `${label(r)} is ${breachLabel(b)} for its ${isHardWindow(j) ? "hard" : "soft"} window`,
+      });
+    }
+
+    const dur = jobDuration(j) + delayOf(r); // an overrun is part of the block
+    const len = r.endMin - r.startMin;
+    if (len !== dur && r.runId && !staleRuns.has(r.runId)) {
+      // One issue per run: re-time every stop back to back
+      staleRuns.add(r.runId);
+      const stops = runsOf(retimeRun(rows, r.runId, jobById, travel)).get(r.runId) || [];
+      const ids = stops.map((x) => x.id);
+      push({
+        ...base,
+        kind: "duration",
+        severity: len < dur ? "error" : "warning",
+        message: `${label(r)} is ${len} min in its run but the stop takes ${dur} min`,
+        fix: stops.every((x) => fits(x, ids)) ? { label: "Re-time the run", rows: stops } : undefined,
+      });
+    } else if (len !== dur && !r.runId) {
+      push({
+        ...base,
+        kind: "duration",
+        severity: len < dur ? "error" : "warning",
+        message: `${label(r)} block is ${len} min but the job takes ${dur} min`,
+        fix: fixIfFits(`Set end to ${toHHMM(r.startMin + dur)}`, { ...r, endMin: r.startMin + dur }),
+      });
+    }
+
+    if (j.truckId && truckById.has(j.truckId) && j.truckId !== r.truckId) {
+      const moved = { ...r, truckId: j.truckId };
+      push({
+        ...base,
+        kind: "preferred-truck",
+        severity: "warning",
+        message: `${label(r)} is on ${truckById.get(r.truckId)?.name || "another truck"}, preferred ${truckById.get(j.truckId)!.name}`,
+        // Moving one stop would break its run up
+        fix: r.runId ? undefined : fixIfFits(`Move to ${truckById.get(j.truckId)!.name}`, moved),
+      });
+    }
+  }
+
+  const dayIdx = (d: DayKey) => DAYS.indexOf(d);
+  return issues.sort(
+    (a, b) =>
+      dayIdx(a.day) - dayIdx(b.day) ||
+      (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1) ||
+      a.id.localeCompare(b.id)
+  );
+};
@@ -0,0 +1,81 @@
+import type { Client, ID, JobTemplate } from "./model";
+import type { Stored } from "./schema";
+
+/** =======================================
+ * Workspaces
+ * Pure: one plan per depot or company, each with its own trucks, clients,
+ * jobs and settings. The workspace id is part of every local storage key
+ * and of every shared store address, so one workspace never sees another's
+ * records. Ids are random, so nobody finds a shared workspace by guessing
+ * its name; to open one on another machine, join it by its id (and the
+ * shared store still only lets its members in).
+ * ======================================= */
+export type Workspace = { id: ID; name: string; createdAt: string };
+
+/** Every browser has it, under the same id, so it stays in the browser: only the other workspaces go to a server */
+export const DEFAULT_WORKSPACE: Workspace = { id: "default", name: "Main", createdAt: "2024-01-01T00:00:00.000Z" };
+
+/** `key` for workspace `ws`; the default workspace keeps the keys it had before workspaces existed */
+export const wsKey = (key: string, ws: ID) => (ws === DEFAULT_WORKSPACE.id ? key : `${key}@${ws}`);
+
+// 128 random bits, as hex
+const randomId = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const nameError = (name: string, list: Workspace[]) => {
+  if (!name) return "Give the workspace a name.";
+  const taken = list.find((w) => w.name.toLowerCase() === name.toLowerCase());
+  return taken ? `There already is a workspace "${taken.name}".` : "";
+};
+
+/** A new workspace called `name`, or why not */
+export const newWorkspace = (name: string, list: Workspace[], now = new Date()): { workspace?: Workspace; error?: string } => {
+  const trimmed = name.trim();
+  const error = nameError(trimmed, list);
+  if (error) return { error };
+  return { workspace: { id: randomId(), name: trimmed, createdAt: now.toISOString() } };
+};
+
+/** Workspace `id`, created on another machine, opened here as `name` */
+export const joinWorkspace = (id: string, name: string, list: Workspace[], now = new Date()): { workspace?: Workspace; error?: string } => {
+  const trimmedId = id.trim().toLowerCase();
+  if (!/^[a-z0-9-]{1,64}$/.test(trimmedId) || trimmedId === DEFAULT_WORKSPACE.id) return { error: "That is not a workspace id." };
+  const have = list.find((w) => w.id === trimmedId);
+  if (have) return { error: `This browser already has it, as "${have.name}".` };
+  const trimmed = name.trim() || `Shared ${trimmedId.slice(0, 6)}`;
+  const error = nameError(trimmed, list);
+  if (error) return { error };
+  return { workspace: { id: trimmedId, name: trimmed, createdAt: now.toISOString() } };
+};
+
+/** The list with the default workspace always first */
+export const withDefault = (list: Workspace[]): Workspace[] => [DEFAULT_WORKSPACE, ...list.filter((w) => w.id !== DEFAULT_WORKSPACE.id)];
+
+export type CopyPick = { clients: ID[]; templates: ID[] };
+
+const mergeById = <T extends { id: ID }>(into: T[], add: T[]): T[] => {
+  const byId = new Map(add.map((x) => [x.id, x]));
+  const have = new Set(into.map((x) => x.id));
+  return [...into.map((x) => byId.get(x.id) ?? x), ...add.filter((x) => !have.has(x.id))];
+};
+
+/**
+ * Clients and recurring jobs of `from` copied into `to`. Ids are kept, so
+ * copying again updates the earlier copies. A template brings its client
+ * along; a preferred truck the target does not have is dropped.
+ */
+export const copyBetween = (
+  from: Pick<Stored, "clients" | "templates">,
+  to: Pick<Stored, "clients" | "templates" | "trucks">,
+  pick: CopyPick
+): { clients: Client[]; templates: JobTemplate[]; copied: { clients: number; templates: number } } => {
+  const templates = from.templates
+    .filter((t) => pick.templates.includes(t.id))
+    .map((t) => (t.job.truckId && !to.trucks.some((x) => x.id === t.job.truckId) ? { ...t, job: { ...t.job, truckId: null } } : t));
+  const clientIds = new Set([...pick.clients, ...templates.map((t) => t.job.clientId).filter((id): id is ID => !!id)]);
+  const clients = from.clients.filter((c) => clientIds.has(c.id));
+  return {
+    clients: mergeById(to.clients, clients),
+    templates: mergeById(to.templates, templates),
+    copied: { clients: clients.length, templates: templates.length },
+  };
+};